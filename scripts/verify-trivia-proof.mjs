@@ -0,0 +1,269 @@
+#!/usr/bin/env node
+// Recomputes a trivia draw from the JSON served by GET /api/trivia/:id/proof.
+// Only uses Node built-ins so anyone can run it without installing the agent.
+//
+//   node scripts/verify-trivia-proof.mjs proof.json
+//   node scripts/verify-trivia-proof.mjs https://host/api/trivia/trivia-001/proof
+//   node scripts/verify-trivia-proof.mjs proof.json --chronik https://chronik.example
+import crypto from "crypto";
+import fs from "fs";
+
+const sha256Hex = (value) =>
+  crypto.createHash("sha256").update(value).digest("hex");
+
+const deterministicPick = (seed, count) => {
+  if (count <= 0) return -1;
+  return Number(BigInt(`0x${sha256Hex(seed)}`) % BigInt(count));
+};
+
+// Round 0 uses the seed itself so single-winner proofs keep their index;
+// later rounds draw from whoever is left with `${seed}:${round}`.
+const deterministicPickMany = (seed, count, picks) => {
+  const remaining = Array.from({ length: Math.max(count, 0) }, (_, i) => i);
+  const picked = [];
+  for (let round = 0; round < picks && remaining.length; round += 1) {
+    const roundSeed = round === 0 ? seed : `${seed}:${round}`;
+    const index = deterministicPick(roundSeed, remaining.length);
+    picked.push(remaining.splice(index, 1)[0]);
+  }
+  return picked;
+};
+
+// Weighted draws walk cumulative ticket ranges; each round removes the
+// picked participant and draws again from the remaining tickets.
+const deterministicWeightedPickMany = (seed, weights, picks) => {
+  const remaining = weights.map((weight, index) => ({ index, weight }));
+  const picked = [];
+  for (let round = 0; round < picks && remaining.length; round += 1) {
+    const roundSeed = round === 0 ? seed : `${seed}:${round}`;
+    const total = remaining.reduce((sum, entry) => sum + entry.weight, 0);
+    let ticket = deterministicPick(roundSeed, total);
+    if (ticket < 0) break;
+    let position = 0;
+    while (ticket >= remaining[position].weight) {
+      ticket -= remaining[position].weight;
+      position += 1;
+    }
+    picked.push(remaining.splice(position, 1)[0].index);
+  }
+  return picked;
+};
+
+// One ticket per weightUnitAtoms of the snapshotted balance, between 1 and
+// weightCap; returns the weights in participant order.
+const verifyTickets = (proof, participantIds, check) => {
+  const tickets = proof.tickets ?? [];
+  check(
+    "tickets cover every participant",
+    JSON.stringify(tickets.map((ticket) => ticket.twitterUserId)) ===
+      JSON.stringify(participantIds),
+    `${tickets.length} tickets`
+  );
+  const unit = BigInt(proof.weightUnitAtoms ?? 1);
+  const cap = BigInt(proof.weightCap ?? 1);
+  let start = 0;
+  const badTickets = tickets.filter((ticket) => {
+    const units = BigInt(ticket.balanceAtoms) / unit;
+    const weight = Number(units > cap ? cap : units) || 1;
+    const ok =
+      ticket.weight === weight &&
+      ticket.rangeStart === start &&
+      ticket.rangeEnd === start + weight;
+    start += ticket.weight;
+    return !ok;
+  });
+  check(
+    "ticket weights match balances",
+    badTickets.length === 0,
+    badTickets.map((ticket) => ticket.twitterUserId).join(",")
+  );
+  return tickets.map((ticket) => ticket.weight);
+};
+
+// Speed contests rank by reply time; X timestamps only have second precision,
+// so the tweet id (a snowflake) breaks ties.
+const compareReplySpeed = (a, b) => {
+  if (a.createdAt !== b.createdAt) return a.createdAt - b.createdAt;
+  const left = BigInt(a.tweetId);
+  const right = BigInt(b.tweetId);
+  return left === right ? 0 : left > right ? 1 : -1;
+};
+
+// Rank holders after the draw: the first `winnerCount` picks, then each
+// reroll hands its rank to the next pick.
+const replayRerolls = (pickedIds, winnerCount, rerolls, check) => {
+  const holders = pickedIds.slice(0, winnerCount);
+  rerolls.forEach((reroll, i) => {
+    check(
+      `reroll ${i + 1} replaced the rank ${reroll.rank} holder`,
+      holders[reroll.rank - 1] === reroll.twitterUserId,
+      reroll.twitterUserId
+    );
+    holders[reroll.rank - 1] = pickedIds[winnerCount + i];
+  });
+  return holders;
+};
+
+const verifyFastest = (proof, check) => {
+  const ranking = [];
+  for (const reply of [...proof.replies].sort(compareReplySpeed)) {
+    if (reply.isCorrect && !ranking.includes(reply.twitterUserId)) {
+      ranking.push(reply.twitterUserId);
+    }
+  }
+  check(
+    "participants match replies",
+    JSON.stringify([...ranking].sort()) === JSON.stringify(proof.participantIds),
+    `${ranking.length} participants`
+  );
+  const expectedWinners = replayRerolls(
+    ranking,
+    proof.winnerCount ?? 1,
+    proof.rerolls ?? [],
+    check
+  );
+  const provedWinners = [...proof.winners]
+    .sort((a, b) => a.rank - b.rank)
+    .map((winner) => winner.twitterUserId);
+  check(
+    "winners are the fastest correct repliers",
+    JSON.stringify(expectedWinners) === JSON.stringify(provedWinners),
+    expectedWinners.join(",") || "no winner"
+  );
+};
+
+const loadProof = async (source) => {
+  if (/^https?:\/\//.test(source)) {
+    const res = await fetch(source);
+    if (!res.ok) {
+      throw new Error(`Proof request failed: ${res.status} ${res.statusText}`);
+    }
+    return res.json();
+  }
+  return JSON.parse(fs.readFileSync(source, "utf8"));
+};
+
+const fetchBlockHash = async (chronikUrl, height) => {
+  const res = await fetch(`${chronikUrl.replace(/\/+$/, "")}/block/${height}`);
+  if (!res.ok) {
+    throw new Error(`Chronik request failed: ${res.status} ${res.statusText}`);
+  }
+  const data = await res.json();
+  const info = data?.blockInfo ?? data?.block_info ?? data;
+  return info?.hash ?? info?.blockHash ?? info?.block_hash;
+};
+
+const report = (checks) => {
+  for (const { name, ok, detail } of checks) {
+    console.log(`${ok ? "OK  " : "FAIL"} ${name}${detail ? ` (${detail})` : ""}`);
+  }
+  const failed = checks.some((entry) => !entry.ok);
+  console.log(failed ? "Proof does NOT verify." : "Proof verifies.");
+  process.exit(failed ? 1 : 0);
+};
+
+const main = async () => {
+  const args = process.argv.slice(2);
+  const source = args.find((arg, index) => !arg.startsWith("--") && args[index - 1] !== "--chronik");
+  const chronikIndex = args.indexOf("--chronik");
+  const chronikUrl = chronikIndex >= 0 ? args[chronikIndex + 1] : null;
+  if (!source) {
+    console.error("Usage: verify-trivia-proof.mjs <proof.json|url> [--chronik <url>]");
+    process.exit(2);
+  }
+
+  const proof = await loadProof(source);
+  const checks = [];
+  const check = (name, ok, detail = "") => checks.push({ name, ok, detail });
+
+  if (proof.selectionMode === "fastest") {
+    verifyFastest(proof, check);
+    return report(checks);
+  }
+
+  check(
+    "salt matches commitment",
+    sha256Hex(proof.salt) === proof.saltCommitment
+  );
+
+  if (chronikUrl) {
+    const blockHash = await fetchBlockHash(chronikUrl, proof.drawBlockHeight);
+    check(
+      `block ${proof.drawBlockHeight} hash matches Chronik`,
+      blockHash === proof.blockHash,
+      blockHash
+    );
+  }
+  check(
+    "draw block is the committed height",
+    proof.blockHeight === proof.drawBlockHeight
+  );
+
+  const replies = [...proof.replies].sort((a, b) => a.createdAt - b.createdAt);
+  const participants = new Set();
+  for (const reply of replies) {
+    if (reply.isCorrect) participants.add(reply.twitterUserId);
+  }
+  const participantIds = Array.from(participants).sort();
+  check(
+    "participants match replies",
+    JSON.stringify(participantIds) === JSON.stringify(proof.participantIds),
+    `${participantIds.length} participants`
+  );
+
+  const seed = [
+    proof.salt,
+    proof.triviaId,
+    proof.tweetId,
+    proof.blockHash,
+    participantIds.join(","),
+  ].join(":");
+  check("seed matches", seed === proof.seed);
+
+  const winnerCount = proof.winnerCount ?? 1;
+  const rerolls = proof.rerolls ?? [];
+  const winnerIndexes =
+    proof.selectionMode === "weighted"
+      ? deterministicWeightedPickMany(
+          seed,
+          verifyTickets(proof, participantIds, check),
+          winnerCount + rerolls.length
+        )
+      : deterministicPickMany(
+          seed,
+          participantIds.length,
+          winnerCount + rerolls.length
+        );
+  const expectedIndexes = proof.winnerIndexes ?? [proof.winnerIndex];
+  check(
+    "winner indexes match",
+    JSON.stringify(winnerIndexes) ===
+      JSON.stringify(expectedIndexes.filter((index) => index >= 0)),
+    winnerIndexes.join(",") || "none"
+  );
+  const expectedWinners = replayRerolls(
+    winnerIndexes.map((index) => participantIds[index]),
+    winnerCount,
+    rerolls,
+    check
+  );
+  const provedWinners = proof.winners
+    ? [...proof.winners]
+        .sort((a, b) => a.rank - b.rank)
+        .map((winner) => winner.twitterUserId)
+    : proof.winner
+      ? [proof.winner.twitterUserId]
+      : [];
+  check(
+    "winners match",
+    JSON.stringify(expectedWinners) === JSON.stringify(provedWinners),
+    expectedWinners.join(",") || "no winner"
+  );
+
+  return report(checks);
+};
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -1,6 +1,13 @@
 import { TwitterApi } from "twitter-api-v2";
 import { elizaLogger } from "@elizaos/core";
 
+export type SearchRecentOptions = {
+  startTime?: number;
+  endTime?: number;
+  nextToken?: string;
+  sinceId?: string;
+};
+
 export class TwitterOfficialClient {
   public client: TwitterApi;
 
@@ -34,11 +41,28 @@ export class TwitterOfficialClient {
   }
 
   // Para trivias: buscar tweets (si tu tier lo permite)
-  async searchRecent(query: string, maxResults = 10) {
+  // options acota la ventana (start_time/end_time), pagina con next_token y
+  // since_id evita volver a traer respuestas ya guardadas
+  async searchRecent(
+    query: string,
+    maxResults = 10,
+    options: SearchRecentOptions = {}
+  ) {
     return this.client.v2.search(query, {
       max_results: Math.min(Math.max(maxResults, 10), 100),
+      ...(options.startTime
+        ? { start_time: new Date(options.startTime).toISOString() }
+        : {}),
+      ...(options.endTime
+        ? { end_time: new Date(options.endTime).toISOString() }
+        : {}),
+      ...(options.nextToken ? { next_token: options.nextToken } : {}),
+      ...(options.sinceId ? { since_id: options.sinceId } : {}),
       // añade fields si los necesitas
       "tweet.fields": ["author_id", "created_at", "conversation_id"],
+      // username del autor para poder etiquetar a los ganadores
+      expansions: ["author_id"],
+      "user.fields": ["username"],
     });
   }
 
@@ -46,6 +70,11 @@ export class TwitterOfficialClient {
   async tweet(text: string) {
     return this.client.v2.tweet(text);
   }
+
+  // Responder a un tweet existente (anuncios de ganadores)
+  async reply(text: string, inReplyToTweetId: string) {
+    return this.client.v2.reply(text, inReplyToTweetId);
+  }
 }
 
 // Interfaz compatible con tu patrón start(runtime)
@@ -2,21 +2,80 @@ import { elizaLogger } from "@elizaos/core";
 
 type SqliteDatabase = import("better-sqlite3").Database;
 
-export type TriviaStatus = "open" | "closed";
+// `posting` reserves the trivia id while its question tweet goes out;
+// `cancelled` trivias were stopped before the draw; `voided` ones were drawn
+// but their unpaid claims were invalidated by an admin.
+export type TriviaStatus =
+  | "posting"
+  | "open"
+  | "closed"
+  | "cancelled"
+  | "voided";
+
+export type TriviaLanguage = "es" | "en";
+
+export type PrizeMode = "equal" | "fixed" | "tiered";
+
+// `random` draws from the block-seeded commit/reveal raffle; `weighted` runs
+// the same raffle with tickets scaled by gating-token balance; `fastest`
+// awards the earliest correct replies and needs no salt or draw block.
+export type SelectionMode = "random" | "weighted" | "fastest";
+
+// `rules` grades replies with answerMatching.ts as they arrive; `llm` asks the
+// agent's model to grade them against a rubric once the window has closed.
+export type GradingMode = "rules" | "llm";
+
+export type GradingSource = "rules" | "llm" | "admin";
+
+export type AnswerMatchMode = "exact" | "contains";
+
+// Stored as JSON in trivia_rewards.answer_rules; see answerMatching.ts.
+export type AnswerRules = {
+  mode: AnswerMatchMode;
+  maxEditDistance: number;
+  numericRange: { min: number; max: number } | null;
+  patterns: string[];
+};
 
 export type TriviaRecord = {
   trivia_id: string;
   tweet_id: string;
+  question_text: string | null;
+  language: TriviaLanguage;
   correct_answers: string;
+  answer_rules: string | null;
+  question_id: number | null;
+  agent_id: string | null;
+  campaign_id: string | null;
+  grading_mode: GradingMode;
+  grading_rubric: string | null;
+  review_minutes: number;
+  graded_at: number | null;
   window_minutes: number;
   reward_rmz: number;
+  winner_count: number;
+  prize_mode: PrizeMode;
+  tier_rewards: string | null;
+  selection_mode: SelectionMode;
+  weight_cap: number | null;
+  weight_unit_atoms: number | null;
+  // Claim policy fixed at create; NULL on older rows means the env default.
+  claim_ttl_ms: number | null;
+  claim_lock_ms: number | null;
+  claim_max_attempts: number | null;
+  gating_token_id: string | null;
   created_at: number;
   closes_at: number;
   status: TriviaStatus;
+  salt: string | null;
+  salt_commitment: string | null;
+  draw_block_height: number | null;
   block_height: number | null;
+  block_hash: string | null;
   seed: string | null;
   winner_twitter_user_id: string | null;
   winner_tweet_id: string | null;
+  // Single-winner claim columns from before trivia_winners; no longer written.
   claim_code: string | null;
   claim_expires_at: number | null;
   used_at: number | null;
@@ -24,6 +83,9 @@ export type TriviaRecord = {
   txid: string | null;
   invalid_attempts: number | null;
   lock_expires_at: number | null;
+  close_lock_expires_at: number | null;
+  announcement_tweet_id: string | null;
+  last_reply_id: string | null;
 };
 
 export type TriviaReplyRecord = {
@@ -34,21 +96,228 @@ export type TriviaReplyRecord = {
   twitter_username: string | null;
   reply_text: string;
   normalized_text: string;
+  // Effective verdict: the admin override if any, else the grader's.
   is_correct: number;
+  // NULL while an LLM-graded reply is waiting for the model.
+  grading_source: GradingSource | null;
+  llm_verdict: number | null;
+  llm_output: string | null;
+  admin_override: number | null;
+  created_at: number;
+};
+
+export type TriviaReplyInsert = Omit<
+  TriviaReplyRecord,
+  "id" | "llm_verdict" | "llm_output" | "admin_override"
+>;
+
+export type TriviaWinnerRecord = {
+  id: number;
+  trivia_id: string;
+  rank: number;
+  twitter_user_id: string;
+  twitter_username: string | null;
+  tweet_id: string | null;
+  reward_rmz: number;
+  claim_code: string;
+  claim_expires_at: number;
+  used_at: number | null;
+  used_address: string | null;
+  txid: string | null;
+  invalid_attempts: number;
+  lock_expires_at: number | null;
+  voided_at: number | null;
+  // Set when the claim expired and could not be rerolled.
+  expired_at: number | null;
   created_at: number;
 };
 
-export type TriviaReplyInsert = Omit<TriviaReplyRecord, "id">;
+// A winner whose claim expired unpaid and was replaced by a reroll.
+export type TriviaRerolledWinnerRecord = {
+  id: number;
+  trivia_id: string;
+  rank: number;
+  twitter_user_id: string;
+  twitter_username: string | null;
+  tweet_id: string | null;
+  reward_rmz: number;
+  claim_code: string;
+  claim_expires_at: number;
+  created_at: number;
+  rerolled_at: number;
+};
+
+export type TriviaWinnerInsert = Pick<
+  TriviaWinnerRecord,
+  | "rank"
+  | "twitter_user_id"
+  | "twitter_username"
+  | "tweet_id"
+  | "reward_rmz"
+  | "claim_code"
+  | "claim_expires_at"
+>;
+
+export type QuestionDifficulty = "easy" | "medium" | "hard";
+
+export type TriviaQuestionRecord = {
+  id: number;
+  question_text: string;
+  correct_answers: string;
+  answer_hint: string | null;
+  answer_format: string | null;
+  category: string;
+  difficulty: QuestionDifficulty;
+  language: TriviaLanguage;
+  times_used: number;
+  last_used_at: number | null;
+  created_at: number;
+  updated_at: number;
+};
+
+export type TriviaQuestionInput = {
+  questionText: string;
+  correctAnswers: string[];
+  answerHint: string | null;
+  answerFormat: string | null;
+  category: string;
+  difficulty: QuestionDifficulty;
+  language: TriviaLanguage;
+};
+
+export type DraftStatus = "pending" | "approved" | "rejected";
+
+// Model-written candidates; only an admin approval copies one into
+// trivia_questions.
+export type TriviaQuestionDraftRecord = {
+  id: number;
+  question_text: string;
+  correct_answers: string;
+  answer_hint: string | null;
+  answer_format: string | null;
+  category: string;
+  difficulty: QuestionDifficulty;
+  language: TriviaLanguage;
+  topic: string | null;
+  agent_id: string | null;
+  status: DraftStatus;
+  question_id: number | null;
+  review_note: string | null;
+  created_at: number;
+  reviewed_at: number | null;
+};
+
+export type CampaignStatus = "active" | "paused";
+
+export type TriviaCampaignRecord = {
+  campaign_id: string;
+  name: string | null;
+  schedule: string;
+  status: CampaignStatus;
+  agent_id: string | null;
+  question_category: string;
+  question_difficulty: QuestionDifficulty | null;
+  language: TriviaLanguage;
+  window_minutes: number;
+  reward_rmz: number;
+  winner_count: number;
+  // Extra POST /api/trivia/create fields (prizeMode, selectionMode, ...).
+  trivia_options: string | null;
+  next_run_at: number | null;
+  last_run_at: number | null;
+  last_trivia_id: string | null;
+  last_error: string | null;
+  run_count: number;
+  created_at: number;
+  updated_at: number;
+};
+
+// Ticket snapshot of a weighted draw, one row per correct participant.
+export type TriviaTicketRecord = {
+  trivia_id: string;
+  twitter_user_id: string;
+  address: string | null;
+  balance_atoms: string;
+  weight: number;
+  range_start: number;
+  range_end: number;
+};
+
+export type TriviaAdminActionType = "cancel" | "void" | "extend" | "answers";
+
+export type TriviaAdminActionRecord = {
+  id: number;
+  trivia_id: string;
+  action: TriviaAdminActionType;
+  actor: string;
+  reason: string;
+  // JSON with the values before and after the change.
+  details: string | null;
+  created_at: number;
+};
+
+// `rmz_amount` is in display units (1.5 RMZ); `atoms` marks rows written
+// before that, which still hold base atoms.
+export type PayoutAmountUnit = "rmz" | "atoms";
+
+export type ReplyGrader = (replyText: string) => {
+  normalized: string;
+  isCorrect: boolean;
+};
 
 export type PayoutRecord = {
   id: number;
   trivia_id: string;
+  winner_id: number | null;
   twitter_user_id: string;
   address: string;
   rmz_amount: number;
   txid: string;
   created_at: number;
   day_key: string;
+  dry_run: number;
+  amount_unit: PayoutAmountUnit;
+};
+
+// pending -> signed (raw tx stored before broadcast) -> broadcast (claim
+// marked paid, tx in the mempool) -> confirmed -> finalized. `failed`
+// releases the claim for another try, and so does `dropped` (a broadcast tx
+// whose inputs a mined transaction spent, so it can never confirm).
+// Jobs queued with REWARD_DRY_RUN stop at `dry_run` after signing.
+export type PayoutJobStatus =
+  | "pending"
+  | "signed"
+  | "broadcast"
+  | "confirmed"
+  | "finalized"
+  | "failed"
+  | "dropped"
+  | "dry_run";
+
+export type PayoutJobRecord = {
+  job_id: string;
+  trivia_id: string;
+  winner_id: number;
+  twitter_user_id: string;
+  address: string;
+  rmz_amount: number;
+  day_key: string;
+  dry_run: number;
+  amount_unit: PayoutAmountUnit;
+  status: PayoutJobStatus;
+  raw_tx: string | null;
+  txid: string | null;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: number | null;
+  lock_expires_at: number | null;
+  block_height: number | null;
+  created_at: number;
+  updated_at: number;
+  broadcast_at: number | null;
+  confirmed_at: number | null;
+  finalized_at: number | null;
+  checked_at: number | null;
 };
 
 export function ensureTriviaTables(db: SqliteDatabase) {
@@ -56,13 +325,37 @@ export function ensureTriviaTables(db: SqliteDatabase) {
     CREATE TABLE IF NOT EXISTS trivia_rewards (
       trivia_id TEXT PRIMARY KEY,
       tweet_id TEXT NOT NULL,
+      question_text TEXT,
+      language TEXT NOT NULL DEFAULT 'es',
       correct_answers TEXT NOT NULL,
+      answer_rules TEXT,
+      question_id INTEGER,
+      agent_id TEXT,
+      campaign_id TEXT,
+      grading_mode TEXT NOT NULL DEFAULT 'rules',
+      grading_rubric TEXT,
+      review_minutes INTEGER NOT NULL DEFAULT 0,
+      graded_at INTEGER,
       window_minutes INTEGER NOT NULL,
-      reward_rmz INTEGER NOT NULL,
+      reward_rmz REAL NOT NULL,
+      winner_count INTEGER NOT NULL DEFAULT 1,
+      prize_mode TEXT NOT NULL DEFAULT 'fixed',
+      tier_rewards TEXT,
+      selection_mode TEXT NOT NULL DEFAULT 'random',
+      weight_cap INTEGER,
+      weight_unit_atoms INTEGER,
+      claim_ttl_ms INTEGER,
+      claim_lock_ms INTEGER,
+      claim_max_attempts INTEGER,
+      gating_token_id TEXT,
       created_at INTEGER NOT NULL,
       closes_at INTEGER NOT NULL,
       status TEXT NOT NULL,
+      salt TEXT,
+      salt_commitment TEXT,
+      draw_block_height INTEGER,
       block_height INTEGER,
+      block_hash TEXT,
       seed TEXT,
       winner_twitter_user_id TEXT,
       winner_tweet_id TEXT,
@@ -72,7 +365,10 @@ export function ensureTriviaTables(db: SqliteDatabase) {
       used_address TEXT,
       txid TEXT,
       invalid_attempts INTEGER NOT NULL DEFAULT 0,
-      lock_expires_at INTEGER
+      lock_expires_at INTEGER,
+      close_lock_expires_at INTEGER,
+      announcement_tweet_id TEXT,
+      last_reply_id TEXT
     );
 
     CREATE TABLE IF NOT EXISTS trivia_replies (
@@ -84,24 +380,168 @@ export function ensureTriviaTables(db: SqliteDatabase) {
       reply_text TEXT NOT NULL,
       normalized_text TEXT NOT NULL,
       is_correct INTEGER NOT NULL,
+      grading_source TEXT,
+      llm_verdict INTEGER,
+      llm_output TEXT,
+      admin_override INTEGER,
       created_at INTEGER NOT NULL,
       UNIQUE(trivia_id, tweet_id)
     );
 
+    CREATE TABLE IF NOT EXISTS trivia_winners (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      trivia_id TEXT NOT NULL,
+      rank INTEGER NOT NULL,
+      twitter_user_id TEXT NOT NULL,
+      twitter_username TEXT,
+      tweet_id TEXT,
+      reward_rmz REAL NOT NULL,
+      claim_code TEXT NOT NULL UNIQUE,
+      claim_expires_at INTEGER NOT NULL,
+      used_at INTEGER,
+      used_address TEXT,
+      txid TEXT,
+      invalid_attempts INTEGER NOT NULL DEFAULT 0,
+      lock_expires_at INTEGER,
+      voided_at INTEGER,
+      expired_at INTEGER,
+      created_at INTEGER NOT NULL,
+      UNIQUE(trivia_id, rank)
+    );
+
+    CREATE TABLE IF NOT EXISTS trivia_tickets (
+      trivia_id TEXT NOT NULL,
+      twitter_user_id TEXT NOT NULL,
+      address TEXT,
+      balance_atoms TEXT NOT NULL,
+      weight INTEGER NOT NULL,
+      range_start INTEGER NOT NULL,
+      range_end INTEGER NOT NULL,
+      PRIMARY KEY (trivia_id, twitter_user_id)
+    );
+
+    CREATE TABLE IF NOT EXISTS trivia_rerolled_winners (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      trivia_id TEXT NOT NULL,
+      rank INTEGER NOT NULL,
+      twitter_user_id TEXT NOT NULL,
+      twitter_username TEXT,
+      tweet_id TEXT,
+      reward_rmz REAL NOT NULL,
+      claim_code TEXT NOT NULL UNIQUE,
+      claim_expires_at INTEGER NOT NULL,
+      created_at INTEGER NOT NULL,
+      rerolled_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS trivia_questions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      question_text TEXT NOT NULL,
+      correct_answers TEXT NOT NULL,
+      answer_hint TEXT,
+      answer_format TEXT,
+      category TEXT NOT NULL,
+      difficulty TEXT NOT NULL DEFAULT 'medium',
+      language TEXT NOT NULL DEFAULT 'es',
+      times_used INTEGER NOT NULL DEFAULT 0,
+      last_used_at INTEGER,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS trivia_question_drafts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      question_text TEXT NOT NULL,
+      correct_answers TEXT NOT NULL,
+      answer_hint TEXT,
+      answer_format TEXT,
+      category TEXT NOT NULL,
+      difficulty TEXT NOT NULL DEFAULT 'medium',
+      language TEXT NOT NULL DEFAULT 'es',
+      topic TEXT,
+      agent_id TEXT,
+      status TEXT NOT NULL DEFAULT 'pending',
+      question_id INTEGER,
+      review_note TEXT,
+      created_at INTEGER NOT NULL,
+      reviewed_at INTEGER
+    );
+
+    CREATE TABLE IF NOT EXISTS trivia_campaigns (
+      campaign_id TEXT PRIMARY KEY,
+      name TEXT,
+      schedule TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'active',
+      agent_id TEXT,
+      question_category TEXT NOT NULL,
+      question_difficulty TEXT,
+      language TEXT NOT NULL DEFAULT 'es',
+      window_minutes INTEGER NOT NULL,
+      reward_rmz REAL NOT NULL,
+      winner_count INTEGER NOT NULL DEFAULT 1,
+      trivia_options TEXT,
+      next_run_at INTEGER,
+      last_run_at INTEGER,
+      last_trivia_id TEXT,
+      last_error TEXT,
+      run_count INTEGER NOT NULL DEFAULT 0,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS trivia_admin_actions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      trivia_id TEXT NOT NULL,
+      action TEXT NOT NULL,
+      actor TEXT NOT NULL,
+      reason TEXT NOT NULL,
+      details TEXT,
+      created_at INTEGER NOT NULL
+    );
+
     CREATE TABLE IF NOT EXISTS trivia_payouts (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       trivia_id TEXT NOT NULL,
+      winner_id INTEGER,
       twitter_user_id TEXT NOT NULL,
       address TEXT NOT NULL,
-      rmz_amount INTEGER NOT NULL,
+      rmz_amount REAL NOT NULL,
       txid TEXT NOT NULL,
       created_at INTEGER NOT NULL,
-      day_key TEXT NOT NULL
+      day_key TEXT NOT NULL,
+      dry_run INTEGER NOT NULL DEFAULT 0,
+      amount_unit TEXT NOT NULL DEFAULT 'rmz'
+    );
+
+    CREATE TABLE IF NOT EXISTS payout_jobs (
+      job_id TEXT PRIMARY KEY,
+      trivia_id TEXT NOT NULL,
+      winner_id INTEGER NOT NULL,
+      twitter_user_id TEXT NOT NULL,
+      address TEXT NOT NULL,
+      rmz_amount REAL NOT NULL,
+      day_key TEXT NOT NULL,
+      dry_run INTEGER NOT NULL DEFAULT 0,
+      amount_unit TEXT NOT NULL DEFAULT 'rmz',
+      status TEXT NOT NULL DEFAULT 'pending',
+      raw_tx TEXT,
+      txid TEXT,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      last_error TEXT,
+      next_attempt_at INTEGER,
+      lock_expires_at INTEGER,
+      block_height INTEGER,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      broadcast_at INTEGER,
+      confirmed_at INTEGER,
+      finalized_at INTEGER,
+      checked_at INTEGER
     );
 
     CREATE TABLE IF NOT EXISTS daily_spend (
       day_key TEXT PRIMARY KEY,
-      total_rmz INTEGER NOT NULL
+      total_rmz REAL NOT NULL
     );
 
     CREATE TABLE IF NOT EXISTS trivia_claim_attempts (
@@ -113,6 +553,8 @@ export function ensureTriviaTables(db: SqliteDatabase) {
 
     CREATE INDEX IF NOT EXISTS trivia_rewards_status_idx
       ON trivia_rewards (status);
+    CREATE INDEX IF NOT EXISTS trivia_rewards_status_closes_idx
+      ON trivia_rewards (status, closes_at);
     CREATE INDEX IF NOT EXISTS trivia_replies_trivia_idx
       ON trivia_replies (trivia_id);
     CREATE INDEX IF NOT EXISTS trivia_replies_user_idx
@@ -129,19 +571,136 @@ export function ensureTriviaTables(db: SqliteDatabase) {
       ON trivia_rewards (claim_code);
     CREATE INDEX IF NOT EXISTS trivia_claim_attempts_lock_idx
       ON trivia_claim_attempts (lock_expires_at);
+    CREATE INDEX IF NOT EXISTS trivia_winners_trivia_idx
+      ON trivia_winners (trivia_id);
+    CREATE INDEX IF NOT EXISTS trivia_winners_expiry_idx
+      ON trivia_winners (claim_expires_at);
+    CREATE INDEX IF NOT EXISTS trivia_rerolled_winners_trivia_idx
+      ON trivia_rerolled_winners (trivia_id);
+    CREATE INDEX IF NOT EXISTS trivia_questions_category_idx
+      ON trivia_questions (category, times_used);
+    CREATE INDEX IF NOT EXISTS trivia_question_drafts_status_idx
+      ON trivia_question_drafts (status, created_at);
+    CREATE INDEX IF NOT EXISTS trivia_campaigns_due_idx
+      ON trivia_campaigns (status, next_run_at);
+    CREATE INDEX IF NOT EXISTS trivia_admin_actions_trivia_idx
+      ON trivia_admin_actions (trivia_id, created_at);
+    -- One live payout per claim; a failed or dropped job lets the winner
+    -- claim again.
+    DROP INDEX IF EXISTS payout_jobs_winner_active_idx;
+    CREATE UNIQUE INDEX IF NOT EXISTS payout_jobs_winner_live_idx
+      ON payout_jobs (winner_id) WHERE status NOT IN ('failed', 'dropped');
+    CREATE INDEX IF NOT EXISTS payout_jobs_status_idx
+      ON payout_jobs (status, next_attempt_at);
+  `);
+
+  ensureColumns(db, "trivia_rewards", {
+    invalid_attempts: "INTEGER NOT NULL DEFAULT 0",
+    lock_expires_at: "INTEGER",
+    close_lock_expires_at: "INTEGER",
+    question_text: "TEXT",
+    language: "TEXT NOT NULL DEFAULT 'es'",
+    announcement_tweet_id: "TEXT",
+    salt: "TEXT",
+    salt_commitment: "TEXT",
+    draw_block_height: "INTEGER",
+    block_hash: "TEXT",
+    last_reply_id: "TEXT",
+    winner_count: "INTEGER NOT NULL DEFAULT 1",
+    prize_mode: "TEXT NOT NULL DEFAULT 'fixed'",
+    tier_rewards: "TEXT",
+    selection_mode: "TEXT NOT NULL DEFAULT 'random'",
+    answer_rules: "TEXT",
+    question_id: "INTEGER",
+    agent_id: "TEXT",
+    campaign_id: "TEXT",
+    grading_mode: "TEXT NOT NULL DEFAULT 'rules'",
+    grading_rubric: "TEXT",
+    review_minutes: "INTEGER NOT NULL DEFAULT 0",
+    graded_at: "INTEGER",
+    weight_cap: "INTEGER",
+    weight_unit_atoms: "INTEGER",
+    claim_ttl_ms: "INTEGER",
+    claim_lock_ms: "INTEGER",
+    claim_max_attempts: "INTEGER",
+    gating_token_id: "TEXT",
+  });
+  ensureColumns(db, "trivia_replies", {
+    grading_source: "TEXT",
+    llm_verdict: "INTEGER",
+    llm_output: "TEXT",
+    admin_override: "INTEGER",
+  });
+  ensureColumns(db, "trivia_winners", {
+    voided_at: "INTEGER",
+    expired_at: "INTEGER",
+  });
+  // Amounts recorded before rewards were kept in RMZ are the base atoms that
+  // were sent; migratePayoutAmountsToRmz converts them once the token's
+  // decimals are known. Inserts always set the unit explicitly.
+  ensureColumns(db, "trivia_payouts", {
+    winner_id: "INTEGER",
+    dry_run: "INTEGER NOT NULL DEFAULT 0",
+    amount_unit: "TEXT NOT NULL DEFAULT 'atoms'",
+  });
+  ensureColumns(db, "payout_jobs", {
+    dry_run: "INTEGER NOT NULL DEFAULT 0",
+    finalized_at: "INTEGER",
+    checked_at: "INTEGER",
+    amount_unit: "TEXT NOT NULL DEFAULT 'atoms'",
+  });
+
+  // Claims used to live on trivia_rewards (one winner per trivia). Copy them
+  // over once so old claim codes keep working; UNIQUE(trivia_id, rank) makes
+  // this a no-op on later startups.
+  db.exec(`
+    INSERT OR IGNORE INTO trivia_winners (
+      trivia_id,
+      rank,
+      twitter_user_id,
+      tweet_id,
+      reward_rmz,
+      claim_code,
+      claim_expires_at,
+      used_at,
+      used_address,
+      txid,
+      invalid_attempts,
+      lock_expires_at,
+      created_at
+    )
+    SELECT
+      trivia_id,
+      1,
+      winner_twitter_user_id,
+      winner_tweet_id,
+      reward_rmz,
+      claim_code,
+      COALESCE(claim_expires_at, closes_at),
+      used_at,
+      used_address,
+      txid,
+      COALESCE(invalid_attempts, 0),
+      lock_expires_at,
+      closes_at
+    FROM trivia_rewards
+    WHERE claim_code IS NOT NULL AND winner_twitter_user_id IS NOT NULL
   `);
+}
 
+function ensureColumns(
+  db: SqliteDatabase,
+  table: string,
+  definitions: Record<string, string>
+) {
   const columns = db
-    .prepare("PRAGMA table_info(trivia_rewards)")
+    .prepare(`PRAGMA table_info(${table})`)
     .all() as Array<{ name: string }>;
   const columnNames = new Set(columns.map((column) => column.name));
-  if (!columnNames.has("invalid_attempts")) {
-    db.exec(
-      "ALTER TABLE trivia_rewards ADD COLUMN invalid_attempts INTEGER NOT NULL DEFAULT 0"
-    );
-  }
-  if (!columnNames.has("lock_expires_at")) {
-    db.exec("ALTER TABLE trivia_rewards ADD COLUMN lock_expires_at INTEGER");
+  for (const [name, definition] of Object.entries(definitions)) {
+    if (!columnNames.has(name)) {
+      db.exec(`ALTER TABLE ${table} ADD COLUMN ${name} ${definition}`);
+    }
   }
 }
 
@@ -163,47 +722,948 @@ export class TriviaRewardsStore {
   createTrivia(params: {
     triviaId: string;
     tweetId: string;
+    questionText?: string | null;
     correctAnswers: string[];
+    answerRules: AnswerRules | null;
+    questionId?: number | null;
+    agentId?: string | null;
+    campaignId?: string | null;
+    gradingMode: GradingMode;
+    gradingRubric: string | null;
+    reviewMinutes: number;
     windowMinutes: number;
     rewardRmz: number;
+    winnerCount: number;
+    prizeMode: PrizeMode;
+    tierRewards: number[] | null;
+    selectionMode: SelectionMode;
+    weightCap: number | null;
+    weightUnitAtoms: number | null;
+    claimTtlMs: number;
+    claimLockMs: number;
+    claimMaxAttempts: number;
+    gatingTokenId: string | null;
+    language?: TriviaLanguage;
+    salt: string | null;
+    saltCommitment: string | null;
+    drawBlockHeight: number | null;
     createdAt: number;
     closesAt: number;
+    status?: "open" | "posting";
   }) {
     const stmt = this.db.prepare(`
       INSERT INTO trivia_rewards (
         trivia_id,
         tweet_id,
+        question_text,
+        language,
         correct_answers,
+        answer_rules,
+        question_id,
+        agent_id,
+        campaign_id,
+        grading_mode,
+        grading_rubric,
+        review_minutes,
         window_minutes,
         reward_rmz,
+        winner_count,
+        prize_mode,
+        tier_rewards,
+        selection_mode,
+        weight_cap,
+        weight_unit_atoms,
+        claim_ttl_ms,
+        claim_lock_ms,
+        claim_max_attempts,
+        gating_token_id,
+        salt,
+        salt_commitment,
+        draw_block_height,
         created_at,
         closes_at,
         status
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     stmt.run(
       params.triviaId,
       params.tweetId,
+      params.questionText ?? null,
+      params.language ?? "es",
       JSON.stringify(params.correctAnswers),
+      params.answerRules ? JSON.stringify(params.answerRules) : null,
+      params.questionId ?? null,
+      params.agentId ?? null,
+      params.campaignId ?? null,
+      params.gradingMode,
+      params.gradingRubric,
+      params.reviewMinutes,
       params.windowMinutes,
       params.rewardRmz,
+      params.winnerCount,
+      params.prizeMode,
+      params.tierRewards ? JSON.stringify(params.tierRewards) : null,
+      params.selectionMode,
+      params.weightCap,
+      params.weightUnitAtoms,
+      params.claimTtlMs,
+      params.claimLockMs,
+      params.claimMaxAttempts,
+      params.gatingTokenId,
+      params.salt,
+      params.saltCommitment,
+      params.drawBlockHeight,
       params.createdAt,
       params.closesAt,
-      "open"
+      params.status ?? "open"
     );
   }
 
+  // Opens a trivia reserved with status `posting` once its tweet is out; the
+  // window starts now rather than at the reservation.
+  activateTrivia(params: {
+    triviaId: string;
+    tweetId: string;
+    createdAt: number;
+    closesAt: number;
+  }) {
+    const result = this.db
+      .prepare(
+        `UPDATE trivia_rewards
+         SET tweet_id = ?, created_at = ?, closes_at = ?, status = 'open'
+         WHERE trivia_id = ? AND status = 'posting'`
+      )
+      .run(params.tweetId, params.createdAt, params.closesAt, params.triviaId);
+    return result.changes > 0;
+  }
+
+  deleteReservedTrivia(triviaId: string) {
+    this.db
+      .prepare(
+        "DELETE FROM trivia_rewards WHERE trivia_id = ? AND status = 'posting'"
+      )
+      .run(triviaId);
+  }
+
+  createQuestion(params: TriviaQuestionInput & { createdAt: number }) {
+    const result = this.db
+      .prepare(
+        `INSERT INTO trivia_questions (
+          question_text,
+          correct_answers,
+          answer_hint,
+          answer_format,
+          category,
+          difficulty,
+          language,
+          created_at,
+          updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        params.questionText,
+        JSON.stringify(params.correctAnswers),
+        params.answerHint,
+        params.answerFormat,
+        params.category,
+        params.difficulty,
+        params.language,
+        params.createdAt,
+        params.createdAt
+      );
+    return Number(result.lastInsertRowid);
+  }
+
+  getQuestion(questionId: number): TriviaQuestionRecord | undefined {
+    return this.db
+      .prepare("SELECT * FROM trivia_questions WHERE id = ?")
+      .get(questionId) as TriviaQuestionRecord | undefined;
+  }
+
+  listQuestions(params: {
+    category?: string;
+    difficulty?: QuestionDifficulty;
+    language?: TriviaLanguage;
+    unusedOnly?: boolean;
+    limit: number;
+  }): TriviaQuestionRecord[] {
+    const conditions: string[] = [];
+    const values: Array<string | number> = [];
+    if (params.category) {
+      conditions.push("category = ?");
+      values.push(params.category);
+    }
+    if (params.difficulty) {
+      conditions.push("difficulty = ?");
+      values.push(params.difficulty);
+    }
+    if (params.language) {
+      conditions.push("language = ?");
+      values.push(params.language);
+    }
+    if (params.unusedOnly) {
+      conditions.push("times_used = 0");
+    }
+    const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+    return this.db
+      .prepare(
+        `SELECT * FROM trivia_questions ${where} ORDER BY created_at ASC, id ASC LIMIT ?`
+      )
+      .all(...values, params.limit) as TriviaQuestionRecord[];
+  }
+
+  updateQuestion(
+    questionId: number,
+    params: TriviaQuestionInput & { updatedAt: number }
+  ) {
+    const result = this.db
+      .prepare(
+        `UPDATE trivia_questions
+         SET question_text = ?,
+             correct_answers = ?,
+             answer_hint = ?,
+             answer_format = ?,
+             category = ?,
+             difficulty = ?,
+             language = ?,
+             updated_at = ?
+         WHERE id = ?`
+      )
+      .run(
+        params.questionText,
+        JSON.stringify(params.correctAnswers),
+        params.answerHint,
+        params.answerFormat,
+        params.category,
+        params.difficulty,
+        params.language,
+        params.updatedAt,
+        questionId
+      );
+    return result.changes > 0;
+  }
+
+  deleteQuestion(questionId: number) {
+    const result = this.db
+      .prepare("DELETE FROM trivia_questions WHERE id = ?")
+      .run(questionId);
+    return result.changes > 0;
+  }
+
+  pickUnusedQuestion(params: {
+    category: string;
+    difficulty?: QuestionDifficulty;
+    language?: TriviaLanguage;
+  }): TriviaQuestionRecord | undefined {
+    const [question] = this.listQuestions({
+      ...params,
+      unusedOnly: true,
+      limit: 1,
+    });
+    return question;
+  }
+
+  markQuestionUsed(questionId: number, usedAt: number) {
+    this.db
+      .prepare(
+        "UPDATE trivia_questions SET times_used = times_used + 1, last_used_at = ? WHERE id = ?"
+      )
+      .run(usedAt, questionId);
+  }
+
+  addQuestionDrafts(
+    drafts: Array<
+      TriviaQuestionInput & { topic: string | null; agentId: string | null }
+    >,
+    createdAt: number
+  ): number[] {
+    const insert = this.db.prepare(`
+      INSERT INTO trivia_question_drafts (
+        question_text,
+        correct_answers,
+        answer_hint,
+        answer_format,
+        category,
+        difficulty,
+        language,
+        topic,
+        agent_id,
+        status,
+        created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending', ?)
+    `);
+    const tx = this.db.transaction(() =>
+      drafts.map((draft) =>
+        Number(
+          insert.run(
+            draft.questionText,
+            JSON.stringify(draft.correctAnswers),
+            draft.answerHint,
+            draft.answerFormat,
+            draft.category,
+            draft.difficulty,
+            draft.language,
+            draft.topic,
+            draft.agentId,
+            createdAt
+          ).lastInsertRowid
+        )
+      )
+    );
+    return tx();
+  }
+
+  getQuestionDraft(draftId: number): TriviaQuestionDraftRecord | undefined {
+    return this.db
+      .prepare("SELECT * FROM trivia_question_drafts WHERE id = ?")
+      .get(draftId) as TriviaQuestionDraftRecord | undefined;
+  }
+
+  listQuestionDrafts(params: {
+    status?: DraftStatus;
+    limit: number;
+  }): TriviaQuestionDraftRecord[] {
+    if (params.status) {
+      return this.db
+        .prepare(
+          "SELECT * FROM trivia_question_drafts WHERE status = ? ORDER BY created_at DESC, id DESC LIMIT ?"
+        )
+        .all(params.status, params.limit) as TriviaQuestionDraftRecord[];
+    }
+    return this.db
+      .prepare(
+        "SELECT * FROM trivia_question_drafts ORDER BY created_at DESC, id DESC LIMIT ?"
+      )
+      .all(params.limit) as TriviaQuestionDraftRecord[];
+  }
+
+  // Copies the (possibly edited) draft into the bank and marks it approved in
+  // one transaction; returns null if the draft was already reviewed.
+  approveQuestionDraft(params: {
+    draftId: number;
+    question: TriviaQuestionInput;
+    reviewedAt: number;
+  }): number | null {
+    const tx = this.db.transaction(() => {
+      const draft = this.getQuestionDraft(params.draftId);
+      if (!draft || draft.status !== "pending") return null;
+      const questionId = this.createQuestion({
+        ...params.question,
+        createdAt: params.reviewedAt,
+      });
+      this.db
+        .prepare(
+          "UPDATE trivia_question_drafts SET status = 'approved', question_id = ?, reviewed_at = ? WHERE id = ?"
+        )
+        .run(questionId, params.reviewedAt, params.draftId);
+      return questionId;
+    });
+    return tx();
+  }
+
+  rejectQuestionDraft(params: {
+    draftId: number;
+    note: string | null;
+    reviewedAt: number;
+  }) {
+    const result = this.db
+      .prepare(
+        "UPDATE trivia_question_drafts SET status = 'rejected', review_note = ?, reviewed_at = ? WHERE id = ? AND status = 'pending'"
+      )
+      .run(params.note, params.reviewedAt, params.draftId);
+    return result.changes > 0;
+  }
+
+  createCampaign(params: {
+    campaignId: string;
+    name: string | null;
+    schedule: string;
+    agentId: string | null;
+    questionCategory: string;
+    questionDifficulty: QuestionDifficulty | null;
+    language: TriviaLanguage;
+    windowMinutes: number;
+    rewardRmz: number;
+    winnerCount: number;
+    triviaOptions: Record<string, unknown> | null;
+    nextRunAt: number;
+    createdAt: number;
+  }) {
+    this.db
+      .prepare(
+        `INSERT INTO trivia_campaigns (
+          campaign_id,
+          name,
+          schedule,
+          status,
+          agent_id,
+          question_category,
+          question_difficulty,
+          language,
+          window_minutes,
+          reward_rmz,
+          winner_count,
+          trivia_options,
+          next_run_at,
+          created_at,
+          updated_at
+        ) VALUES (?, ?, ?, 'active', ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        params.campaignId,
+        params.name,
+        params.schedule,
+        params.agentId,
+        params.questionCategory,
+        params.questionDifficulty,
+        params.language,
+        params.windowMinutes,
+        params.rewardRmz,
+        params.winnerCount,
+        params.triviaOptions ? JSON.stringify(params.triviaOptions) : null,
+        params.nextRunAt,
+        params.createdAt,
+        params.createdAt
+      );
+  }
+
+  getCampaign(campaignId: string): TriviaCampaignRecord | undefined {
+    return this.db
+      .prepare("SELECT * FROM trivia_campaigns WHERE campaign_id = ?")
+      .get(campaignId) as TriviaCampaignRecord | undefined;
+  }
+
+  listCampaigns(): TriviaCampaignRecord[] {
+    return this.db
+      .prepare("SELECT * FROM trivia_campaigns ORDER BY created_at ASC")
+      .all() as TriviaCampaignRecord[];
+  }
+
+  listDueCampaigns(now: number): TriviaCampaignRecord[] {
+    return this.db
+      .prepare(
+        "SELECT * FROM trivia_campaigns WHERE status = 'active' AND next_run_at IS NOT NULL AND next_run_at <= ? ORDER BY next_run_at ASC"
+      )
+      .all(now) as TriviaCampaignRecord[];
+  }
+
+  setCampaignStatus(params: {
+    campaignId: string;
+    status: CampaignStatus;
+    nextRunAt: number | null;
+    updatedAt: number;
+  }) {
+    const result = this.db
+      .prepare(
+        "UPDATE trivia_campaigns SET status = ?, next_run_at = ?, updated_at = ? WHERE campaign_id = ?"
+      )
+      .run(params.status, params.nextRunAt, params.updatedAt, params.campaignId);
+    return result.changes > 0;
+  }
+
+  recordCampaignRun(params: {
+    campaignId: string;
+    ranAt: number;
+    nextRunAt: number | null;
+    triviaId: string | null;
+    error: string | null;
+  }) {
+    this.db
+      .prepare(
+        `UPDATE trivia_campaigns
+         SET last_run_at = ?,
+             next_run_at = ?,
+             last_trivia_id = COALESCE(?, last_trivia_id),
+             last_error = ?,
+             run_count = run_count + CASE WHEN ? IS NULL THEN 0 ELSE 1 END,
+             updated_at = ?
+         WHERE campaign_id = ?`
+      )
+      .run(
+        params.ranAt,
+        params.nextRunAt,
+        params.triviaId,
+        params.error,
+        params.triviaId,
+        params.ranAt,
+        params.campaignId
+      );
+  }
+
   getTrivia(triviaId: string): TriviaRecord | undefined {
     return this.db
       .prepare("SELECT * FROM trivia_rewards WHERE trivia_id = ?")
       .get(triviaId) as TriviaRecord | undefined;
   }
 
-  getClaimByCode(claimCode: string): TriviaRecord | undefined {
+  listTrivias(params: { status?: TriviaStatus; limit: number }): TriviaRecord[] {
+    if (params.status) {
+      return this.db
+        .prepare(
+          "SELECT * FROM trivia_rewards WHERE status = ? ORDER BY created_at DESC LIMIT ?"
+        )
+        .all(params.status, params.limit) as TriviaRecord[];
+    }
     return this.db
-      .prepare("SELECT * FROM trivia_rewards WHERE claim_code = ?")
-      .get(claimCode) as TriviaRecord | undefined;
+      .prepare(
+        "SELECT * FROM trivia_rewards WHERE status != 'posting' ORDER BY created_at DESC LIMIT ?"
+      )
+      .all(params.limit) as TriviaRecord[];
+  }
+
+  // LLM-graded trivias in their review window are left alone until it ends.
+  listDueTrivias(now: number): TriviaRecord[] {
+    return this.db
+      .prepare(
+        `SELECT * FROM trivia_rewards
+         WHERE status = 'open'
+           AND closes_at <= ?
+           AND NOT (
+             grading_mode = 'llm'
+             AND graded_at IS NOT NULL
+             AND graded_at + review_minutes * 60000 > ?
+           )
+         ORDER BY closes_at ASC`
+      )
+      .all(now, now) as TriviaRecord[];
+  }
+
+  listOpenTrivias(now: number): TriviaRecord[] {
+    return this.db
+      .prepare(
+        "SELECT * FROM trivia_rewards WHERE status = 'open' AND created_at <= ? ORDER BY closes_at ASC"
+      )
+      .all(now) as TriviaRecord[];
+  }
+
+  setLastReplyId(triviaId: string, lastReplyId: string) {
+    this.db
+      .prepare("UPDATE trivia_rewards SET last_reply_id = ? WHERE trivia_id = ?")
+      .run(lastReplyId, triviaId);
+  }
+
+  acquireCloseLock(params: {
+    triviaId: string;
+    lockExpiresAt: number;
+    now: number;
+  }) {
+    const stmt = this.db.prepare(`
+      UPDATE trivia_rewards
+      SET close_lock_expires_at = ?
+      WHERE trivia_id = ?
+        AND status = 'open'
+        AND (close_lock_expires_at IS NULL OR close_lock_expires_at < ?)
+    `);
+    const result = stmt.run(params.lockExpiresAt, params.triviaId, params.now);
+    return result.changes > 0;
+  }
+
+  releaseCloseLock(triviaId: string) {
+    this.db
+      .prepare(
+        "UPDATE trivia_rewards SET close_lock_expires_at = NULL WHERE trivia_id = ?"
+      )
+      .run(triviaId);
+  }
+
+  recordAdminAction(params: {
+    triviaId: string;
+    action: TriviaAdminActionType;
+    actor: string;
+    reason: string;
+    details: Record<string, unknown> | null;
+    createdAt: number;
+  }) {
+    this.db
+      .prepare(
+        `INSERT INTO trivia_admin_actions (
+          trivia_id,
+          action,
+          actor,
+          reason,
+          details,
+          created_at
+        ) VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        params.triviaId,
+        params.action,
+        params.actor,
+        params.reason,
+        params.details ? JSON.stringify(params.details) : null,
+        params.createdAt
+      );
+  }
+
+  listAdminActions(triviaId: string): TriviaAdminActionRecord[] {
+    return this.db
+      .prepare(
+        "SELECT * FROM trivia_admin_actions WHERE trivia_id = ? ORDER BY created_at ASC, id ASC"
+      )
+      .all(triviaId) as TriviaAdminActionRecord[];
+  }
+
+  // A trivia being closed holds the close lock and cannot be cancelled.
+  cancelTrivia(params: {
+    triviaId: string;
+    actor: string;
+    reason: string;
+    now: number;
+  }) {
+    const tx = this.db.transaction(() => {
+      const result = this.db
+        .prepare(
+          `UPDATE trivia_rewards
+           SET status = 'cancelled'
+           WHERE trivia_id = ?
+             AND status = 'open'
+             AND (close_lock_expires_at IS NULL OR close_lock_expires_at < ?)`
+        )
+        .run(params.triviaId, params.now);
+      if (result.changes === 0) return false;
+      this.recordAdminAction({
+        triviaId: params.triviaId,
+        action: "cancel",
+        actor: params.actor,
+        reason: params.reason,
+        details: null,
+        createdAt: params.now,
+      });
+      return true;
+    });
+    return tx();
+  }
+
+  // Refused once any claim is paid, holds a lock or has a payout queued, since
+  // a queued payout may already be signed.
+  voidTrivia(params: {
+    triviaId: string;
+    actor: string;
+    reason: string;
+    now: number;
+  }) {
+    const tx = this.db.transaction(() => {
+      const result = this.db
+        .prepare(
+          `UPDATE trivia_rewards
+           SET status = 'voided'
+           WHERE trivia_id = ?
+             AND status = 'closed'
+             AND used_at IS NULL
+             AND NOT EXISTS (
+               SELECT 1 FROM trivia_winners
+               WHERE trivia_id = trivia_rewards.trivia_id
+                 AND (used_at IS NOT NULL OR lock_expires_at >= ?)
+             )
+             AND NOT EXISTS (
+               SELECT 1 FROM payout_jobs
+               WHERE trivia_id = trivia_rewards.trivia_id
+                 AND status NOT IN ('failed', 'dropped')
+             )`
+        )
+        .run(params.triviaId, params.now);
+      if (result.changes === 0) return false;
+      this.db
+        .prepare("UPDATE trivia_winners SET voided_at = ? WHERE trivia_id = ?")
+        .run(params.now, params.triviaId);
+      this.recordAdminAction({
+        triviaId: params.triviaId,
+        action: "void",
+        actor: params.actor,
+        reason: params.reason,
+        details: null,
+        createdAt: params.now,
+      });
+      return true;
+    });
+    return tx();
+  }
+
+  // `drawBlockHeight` moves the draw commitment along with the window; the
+  // caller checks that the old block is not mined yet.
+  extendTrivia(params: {
+    triviaId: string;
+    closesAt: number;
+    drawBlockHeight: number | null;
+    actor: string;
+    reason: string;
+    now: number;
+  }) {
+    const tx = this.db.transaction(() => {
+      const trivia = this.getTrivia(params.triviaId);
+      if (!trivia || trivia.status !== "open") return false;
+      const result = this.db
+        .prepare(
+          `UPDATE trivia_rewards
+           SET closes_at = ?, draw_block_height = ?
+           WHERE trivia_id = ?
+             AND status = 'open'
+             AND (close_lock_expires_at IS NULL OR close_lock_expires_at < ?)`
+        )
+        .run(
+          params.closesAt,
+          params.drawBlockHeight,
+          params.triviaId,
+          params.now
+        );
+      if (result.changes === 0) return false;
+      this.recordAdminAction({
+        triviaId: params.triviaId,
+        action: "extend",
+        actor: params.actor,
+        reason: params.reason,
+        details: {
+          closesAt: trivia.closes_at,
+          newClosesAt: params.closesAt,
+          drawBlockHeight: trivia.draw_block_height,
+          newDrawBlockHeight: params.drawBlockHeight,
+        },
+        createdAt: params.now,
+      });
+      return true;
+    });
+    return tx();
+  }
+
+  // Grades every rules-graded reply of the trivia again with `gradeReply`,
+  // reading the replies in the same transaction as the writes.
+  regradeRulesReplies(
+    triviaId: string,
+    gradeReply: ReplyGrader
+  ): { regraded: number; correct: number } {
+    const update = this.db.prepare(`
+      UPDATE trivia_replies
+      SET normalized_text = ?,
+          is_correct = ?
+      WHERE trivia_id = ? AND tweet_id = ? AND grading_source = 'rules'
+    `);
+    const tx = this.db.transaction(() => {
+      const replies = this.db
+        .prepare(
+          "SELECT tweet_id, reply_text FROM trivia_replies WHERE trivia_id = ? AND grading_source = 'rules'"
+        )
+        .all(triviaId) as Array<{ tweet_id: string; reply_text: string }>;
+      let correct = 0;
+      for (const reply of replies) {
+        const { normalized, isCorrect } = gradeReply(reply.reply_text);
+        update.run(normalized, isCorrect ? 1 : 0, triviaId, reply.tweet_id);
+        if (isCorrect) correct += 1;
+      }
+      return { regraded: replies.length, correct };
+    });
+    return tx();
+  }
+
+  // Rules-graded replies are regraded with `gradeReply` inside the same
+  // transaction. For LLM grading the model verdicts are dropped (admin
+  // overrides stay) so the next close grades again against the new
+  // reference answers. Returns null when the trivia is no longer editable.
+  updateTriviaAnswers(params: {
+    triviaId: string;
+    correctAnswers: string[];
+    answerRules: AnswerRules | null;
+    gradeReply: ReplyGrader | null;
+    actor: string;
+    reason: string;
+    now: number;
+  }) {
+    const tx = this.db.transaction(() => {
+      const trivia = this.getTrivia(params.triviaId);
+      if (!trivia || trivia.status !== "open") return null;
+      const result = this.db
+        .prepare(
+          `UPDATE trivia_rewards
+           SET correct_answers = ?,
+               answer_rules = ?,
+               graded_at = NULL
+           WHERE trivia_id = ?
+             AND status = 'open'
+             AND (close_lock_expires_at IS NULL OR close_lock_expires_at < ?)`
+        )
+        .run(
+          JSON.stringify(params.correctAnswers),
+          params.answerRules ? JSON.stringify(params.answerRules) : null,
+          params.triviaId,
+          params.now
+        );
+      if (result.changes === 0) return null;
+      const regraded = params.gradeReply
+        ? this.regradeRulesReplies(params.triviaId, params.gradeReply)
+        : { regraded: 0, correct: 0 };
+      this.db
+        .prepare(
+          `UPDATE trivia_replies
+           SET llm_verdict = NULL,
+               llm_output = NULL,
+               is_correct = COALESCE(admin_override, 0),
+               grading_source = CASE WHEN admin_override IS NULL THEN NULL ELSE 'admin' END
+           WHERE trivia_id = ? AND grading_source IN ('llm', 'admin')`
+        )
+        .run(params.triviaId);
+      this.recordAdminAction({
+        triviaId: params.triviaId,
+        action: "answers",
+        actor: params.actor,
+        reason: params.reason,
+        details: {
+          correctAnswers: JSON.parse(trivia.correct_answers),
+          answerRules: trivia.answer_rules ? JSON.parse(trivia.answer_rules) : null,
+          newCorrectAnswers: params.correctAnswers,
+          newAnswerRules: params.answerRules,
+          regradedReplies: regraded.regraded,
+        },
+        createdAt: params.now,
+      });
+      return regraded;
+    });
+    return tx();
+  }
+
+  getClaimByCode(claimCode: string): TriviaWinnerRecord | undefined {
+    return this.db
+      .prepare("SELECT * FROM trivia_winners WHERE claim_code = ?")
+      .get(claimCode) as TriviaWinnerRecord | undefined;
+  }
+
+  listWinners(triviaId: string): TriviaWinnerRecord[] {
+    return this.db
+      .prepare("SELECT * FROM trivia_winners WHERE trivia_id = ? ORDER BY rank ASC")
+      .all(triviaId) as TriviaWinnerRecord[];
+  }
+
+  // Unpaid claims past their expiry that the reroll loop has not handled.
+  listExpiredClaims(now: number): TriviaWinnerRecord[] {
+    return this.db
+      .prepare(
+        `SELECT trivia_winners.*
+         FROM trivia_winners
+         JOIN trivia_rewards ON trivia_rewards.trivia_id = trivia_winners.trivia_id
+         WHERE trivia_rewards.status = 'closed'
+           AND trivia_winners.used_at IS NULL
+           AND trivia_winners.voided_at IS NULL
+           AND trivia_winners.expired_at IS NULL
+           AND trivia_winners.claim_expires_at < ?
+           AND NOT EXISTS (
+             SELECT 1 FROM payout_jobs
+             WHERE payout_jobs.winner_id = trivia_winners.id
+               AND payout_jobs.status NOT IN ('failed', 'dropped')
+           )
+         ORDER BY trivia_winners.claim_expires_at ASC, trivia_winners.trivia_id ASC, trivia_winners.rank ASC`
+      )
+      .all(now) as TriviaWinnerRecord[];
+  }
+
+  listRerolledWinners(triviaId: string): TriviaRerolledWinnerRecord[] {
+    return this.db
+      .prepare(
+        "SELECT * FROM trivia_rerolled_winners WHERE trivia_id = ? ORDER BY rerolled_at ASC, id ASC"
+      )
+      .all(triviaId) as TriviaRerolledWinnerRecord[];
+  }
+
+  getRerolledClaimByCode(
+    claimCode: string
+  ): TriviaRerolledWinnerRecord | undefined {
+    return this.db
+      .prepare("SELECT * FROM trivia_rerolled_winners WHERE claim_code = ?")
+      .get(claimCode) as TriviaRerolledWinnerRecord | undefined;
+  }
+
+  markClaimExpired(winnerId: number, expiredAt: number) {
+    this.db
+      .prepare(
+        "UPDATE trivia_winners SET expired_at = ? WHERE id = ? AND used_at IS NULL"
+      )
+      .run(expiredAt, winnerId);
+  }
+
+  // Moves the expired winner to trivia_rerolled_winners and gives its rank to
+  // `winner`. Fails if the claim was paid, queued for payout or rerolled
+  // meanwhile.
+  rerollWinner(params: {
+    winnerId: number;
+    claimCode: string;
+    winner: TriviaWinnerInsert;
+    now: number;
+  }) {
+    const archive = this.db.prepare(`
+      INSERT INTO trivia_rerolled_winners (
+        trivia_id,
+        rank,
+        twitter_user_id,
+        twitter_username,
+        tweet_id,
+        reward_rmz,
+        claim_code,
+        claim_expires_at,
+        created_at,
+        rerolled_at
+      )
+      SELECT
+        trivia_id,
+        rank,
+        twitter_user_id,
+        twitter_username,
+        tweet_id,
+        reward_rmz,
+        claim_code,
+        claim_expires_at,
+        created_at,
+        ?
+      FROM trivia_winners
+      WHERE id = ?
+        AND claim_code = ?
+        AND used_at IS NULL
+        AND voided_at IS NULL
+        AND expired_at IS NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM payout_jobs
+          WHERE payout_jobs.winner_id = trivia_winners.id
+            AND payout_jobs.status NOT IN ('failed', 'dropped')
+        )
+    `);
+    const replace = this.db.prepare(`
+      UPDATE trivia_winners
+      SET twitter_user_id = ?,
+          twitter_username = ?,
+          tweet_id = ?,
+          reward_rmz = ?,
+          claim_code = ?,
+          claim_expires_at = ?,
+          invalid_attempts = 0,
+          lock_expires_at = NULL,
+          created_at = ?
+      WHERE id = ?
+    `);
+    const tx = this.db.transaction(() => {
+      const archived = archive.run(
+        params.now,
+        params.winnerId,
+        params.claimCode
+      );
+      if (archived.changes === 0) return false;
+      const { winner } = params;
+      replace.run(
+        winner.twitter_user_id,
+        winner.twitter_username,
+        winner.tweet_id,
+        winner.reward_rmz,
+        winner.claim_code,
+        winner.claim_expires_at,
+        params.now,
+        params.winnerId
+      );
+      if (winner.rank === 1) {
+        this.db
+          .prepare(
+            "UPDATE trivia_rewards SET winner_twitter_user_id = ?, winner_tweet_id = ? WHERE trivia_id = (SELECT trivia_id FROM trivia_winners WHERE id = ?)"
+          )
+          .run(winner.twitter_user_id, winner.tweet_id, params.winnerId);
+      }
+      return true;
+    });
+    return tx();
   }
 
   addReplies(replies: TriviaReplyInsert[]) {
@@ -217,8 +1677,9 @@ export class TriviaRewardsStore {
         reply_text,
         normalized_text,
         is_correct,
+        grading_source,
         created_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     const tx = this.db.transaction(() => {
@@ -231,18 +1692,112 @@ export class TriviaRewardsStore {
           reply.reply_text,
           reply.normalized_text,
           reply.is_correct,
+          reply.grading_source,
           reply.created_at
         );
       }
     });
 
-    tx();
+    tx();
+  }
+
+  listUngradedReplies(triviaId: string): TriviaReplyRecord[] {
+    return this.db
+      .prepare(
+        "SELECT * FROM trivia_replies WHERE trivia_id = ? AND grading_source IS NULL ORDER BY created_at ASC, id ASC"
+      )
+      .all(triviaId) as TriviaReplyRecord[];
+  }
+
+  setLlmVerdict(params: {
+    triviaId: string;
+    tweetId: string;
+    verdict: boolean;
+    output: string;
+  }) {
+    const verdict = params.verdict ? 1 : 0;
+    this.db
+      .prepare(
+        `UPDATE trivia_replies
+         SET llm_verdict = ?,
+             llm_output = ?,
+             is_correct = COALESCE(admin_override, ?),
+             grading_source = CASE WHEN admin_override IS NULL THEN 'llm' ELSE 'admin' END
+         WHERE trivia_id = ? AND tweet_id = ?`
+      )
+      .run(verdict, params.output, verdict, params.triviaId, params.tweetId);
+  }
+
+  // `isCorrect: null` drops the override and falls back to the model verdict;
+  // a reply the model has not seen yet goes back to pending.
+  setAdminOverride(params: {
+    triviaId: string;
+    tweetId: string;
+    isCorrect: boolean | null;
+  }) {
+    const override =
+      params.isCorrect === null ? null : params.isCorrect ? 1 : 0;
+    const result = this.db
+      .prepare(
+        `UPDATE trivia_replies
+         SET admin_override = ?,
+             is_correct = COALESCE(?, llm_verdict, 0),
+             grading_source = CASE
+               WHEN ? IS NOT NULL THEN 'admin'
+               WHEN llm_verdict IS NOT NULL THEN 'llm'
+               ELSE NULL
+             END
+         WHERE trivia_id = ? AND tweet_id = ?`
+      )
+      .run(override, override, override, params.triviaId, params.tweetId);
+    return result.changes > 0;
+  }
+
+  markTriviaGraded(triviaId: string, gradedAt: number) {
+    this.db
+      .prepare(
+        "UPDATE trivia_rewards SET graded_at = ? WHERE trivia_id = ? AND graded_at IS NULL"
+      )
+      .run(gradedAt, triviaId);
+  }
+
+  getReply(triviaId: string, tweetId: string): TriviaReplyRecord | undefined {
+    return this.db
+      .prepare("SELECT * FROM trivia_replies WHERE trivia_id = ? AND tweet_id = ?")
+      .get(triviaId, tweetId) as TriviaReplyRecord | undefined;
+  }
+
+  getReplyStats(triviaId: string): {
+    participantCount: number;
+    correctCount: number;
+  } {
+    const row = this.db
+      .prepare(
+        `SELECT COUNT(DISTINCT twitter_user_id) as participantCount,
+                COUNT(DISTINCT CASE WHEN is_correct = 1 THEN twitter_user_id END) as correctCount
+         FROM trivia_replies WHERE trivia_id = ?`
+      )
+      .get(triviaId) as
+      | { participantCount: number; correctCount: number }
+      | undefined;
+    return {
+      participantCount: row?.participantCount ?? 0,
+      correctCount: row?.correctCount ?? 0,
+    };
+  }
+
+  listReplies(triviaId: string): TriviaReplyRecord[] {
+    return this.db
+      .prepare(
+        "SELECT * FROM trivia_replies WHERE trivia_id = ? ORDER BY created_at ASC, id ASC"
+      )
+      .all(triviaId) as TriviaReplyRecord[];
   }
 
   listCorrectReplies(triviaId: string): TriviaReplyRecord[] {
     return this.db
       .prepare(
-        "SELECT * FROM trivia_replies WHERE trivia_id = ? AND is_correct = 1 ORDER BY created_at ASC"
+        "SELECT * FROM trivia_replies WHERE trivia_id = ? AND is_correct = 1 ORDER BY created_at ASC, id ASC"
       )
       .all(triviaId) as TriviaReplyRecord[];
   }
@@ -250,62 +1805,114 @@ export class TriviaRewardsStore {
   closeTrivia(params: {
     triviaId: string;
     blockHeight: number;
-    seed: string;
-    winnerTwitterUserId: string | null;
-    winnerTweetId: string | null;
-    claimCode: string | null;
-    claimExpiresAt: number | null;
+    blockHash: string | null;
+    seed: string | null;
+    winners: TriviaWinnerInsert[];
+    tickets?: Omit<TriviaTicketRecord, "trivia_id">[];
+    closedAt: number;
   }) {
-    const stmt = this.db.prepare(`
+    const first = params.winners[0] ?? null;
+    const update = this.db.prepare(`
       UPDATE trivia_rewards
       SET status = ?,
           block_height = ?,
+          block_hash = ?,
           seed = ?,
           winner_twitter_user_id = ?,
           winner_tweet_id = ?,
-          claim_code = ?,
-          claim_expires_at = ?
-      WHERE trivia_id = ?
+          close_lock_expires_at = NULL
+      WHERE trivia_id = ? AND status = 'open'
+    `);
+    const insertWinner = this.db.prepare(`
+      INSERT INTO trivia_winners (
+        trivia_id,
+        rank,
+        twitter_user_id,
+        twitter_username,
+        tweet_id,
+        reward_rmz,
+        claim_code,
+        claim_expires_at,
+        created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertTicket = this.db.prepare(`
+      INSERT INTO trivia_tickets (
+        trivia_id,
+        twitter_user_id,
+        address,
+        balance_atoms,
+        weight,
+        range_start,
+        range_end
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
     `);
 
-    stmt.run(
-      "closed",
-      params.blockHeight,
-      params.seed,
-      params.winnerTwitterUserId,
-      params.winnerTweetId,
-      params.claimCode,
-      params.claimExpiresAt,
-      params.triviaId
-    );
+    const tx = this.db.transaction(() => {
+      const result = update.run(
+        "closed",
+        params.blockHeight,
+        params.blockHash,
+        params.seed,
+        first?.twitter_user_id ?? null,
+        first?.tweet_id ?? null,
+        params.triviaId
+      );
+      if (result.changes === 0) return false;
+      for (const winner of params.winners) {
+        insertWinner.run(
+          params.triviaId,
+          winner.rank,
+          winner.twitter_user_id,
+          winner.twitter_username,
+          winner.tweet_id,
+          winner.reward_rmz,
+          winner.claim_code,
+          winner.claim_expires_at,
+          params.closedAt
+        );
+      }
+      for (const ticket of params.tickets ?? []) {
+        insertTicket.run(
+          params.triviaId,
+          ticket.twitter_user_id,
+          ticket.address,
+          ticket.balance_atoms,
+          ticket.weight,
+          ticket.range_start,
+          ticket.range_end
+        );
+      }
+      return true;
+    });
+    return tx();
   }
 
-  markClaimUsed(params: {
-    triviaId: string;
-    usedAt: number;
-    usedAddress: string;
-    txid: string;
-  }) {
-    const stmt = this.db.prepare(`
-      UPDATE trivia_rewards
-      SET used_at = ?,
-          used_address = ?,
-          txid = ?,
-          invalid_attempts = 0,
-          lock_expires_at = NULL
-      WHERE trivia_id = ? AND used_at IS NULL
-    `);
-    const result = stmt.run(
-      params.usedAt,
-      params.usedAddress,
-      params.txid,
-      params.triviaId
-    );
+  listTickets(triviaId: string): TriviaTicketRecord[] {
+    return this.db
+      .prepare(
+        "SELECT * FROM trivia_tickets WHERE trivia_id = ? ORDER BY range_start ASC"
+      )
+      .all(triviaId) as TriviaTicketRecord[];
+  }
 
-    if (result.changes === 0) {
-      elizaLogger.warn("Claim already used or missing trivia.");
-    }
-    return result.changes > 0;
+  getTicket(
+    triviaId: string,
+    twitterUserId: string
+  ): TriviaTicketRecord | undefined {
+    return this.db
+      .prepare(
+        "SELECT * FROM trivia_tickets WHERE trivia_id = ? AND twitter_user_id = ?"
+      )
+      .get(triviaId, twitterUserId) as TriviaTicketRecord | undefined;
+  }
+
+  setAnnouncementTweetId(triviaId: string, announcementTweetId: string) {
+    this.db
+      .prepare(
+        "UPDATE trivia_rewards SET announcement_tweet_id = ? WHERE trivia_id = ?"
+      )
+      .run(announcementTweetId, triviaId);
   }
 
   markClaimPaid(params: {
@@ -315,13 +1922,13 @@ export class TriviaRewardsStore {
     txid: string;
   }) {
     const stmt = this.db.prepare(`
-      UPDATE trivia_rewards
+      UPDATE trivia_winners
       SET used_at = ?,
           used_address = ?,
           txid = ?,
           invalid_attempts = 0,
           lock_expires_at = NULL
-      WHERE claim_code = ? AND used_at IS NULL
+      WHERE claim_code = ? AND used_at IS NULL AND voided_at IS NULL
     `);
     const result = stmt.run(
       params.usedAt,
@@ -335,53 +1942,25 @@ export class TriviaRewardsStore {
     return result.changes > 0;
   }
 
-  acquireClaimLock(params: {
-    claimCode: string;
-    lockExpiresAt: number;
-    now: number;
-  }) {
-    const stmt = this.db.prepare(`
-      UPDATE trivia_rewards
-      SET lock_expires_at = ?
-      WHERE claim_code = ?
-        AND used_at IS NULL
-        AND (lock_expires_at IS NULL OR lock_expires_at < ?)
-    `);
-    const result = stmt.run(
-      params.lockExpiresAt,
-      params.claimCode,
-      params.now
-    );
-    return result.changes > 0;
-  }
-
-  clearClaimLockByCode(claimCode: string) {
-    this.db
-      .prepare(
-        "UPDATE trivia_rewards SET lock_expires_at = NULL WHERE claim_code = ?"
-      )
-      .run(claimCode);
-  }
-
-  clearClaimLock(triviaId: string) {
+  clearClaimLock(winnerId: number) {
     this.db
       .prepare(
-        "UPDATE trivia_rewards SET invalid_attempts = 0, lock_expires_at = NULL WHERE trivia_id = ?"
+        "UPDATE trivia_winners SET invalid_attempts = 0, lock_expires_at = NULL WHERE id = ?"
       )
-      .run(triviaId);
+      .run(winnerId);
   }
 
   recordInvalidAttempt(params: {
-    triviaId: string;
+    winnerId: number;
     now: number;
     maxAttempts: number;
     lockMs: number;
   }) {
     const row = this.db
       .prepare(
-        "SELECT invalid_attempts, lock_expires_at FROM trivia_rewards WHERE trivia_id = ?"
+        "SELECT invalid_attempts, lock_expires_at FROM trivia_winners WHERE id = ?"
       )
-      .get(params.triviaId) as
+      .get(params.winnerId) as
       | { invalid_attempts: number | null; lock_expires_at: number | null }
       | undefined;
     let invalidAttempts = row?.invalid_attempts ?? 0;
@@ -400,9 +1979,9 @@ export class TriviaRewardsStore {
 
     this.db
       .prepare(
-        "UPDATE trivia_rewards SET invalid_attempts = ?, lock_expires_at = ? WHERE trivia_id = ?"
+        "UPDATE trivia_winners SET invalid_attempts = ?, lock_expires_at = ? WHERE id = ?"
       )
-      .run(invalidAttempts, newLockExpiresAt, params.triviaId);
+      .run(invalidAttempts, newLockExpiresAt, params.winnerId);
 
     return { invalidAttempts, lockExpiresAt: newLockExpiresAt };
   }
@@ -470,35 +2049,523 @@ export class TriviaRewardsStore {
 
   insertPayout(params: {
     triviaId: string;
+    winnerId: number;
     twitterUserId: string;
     address: string;
     rmzAmount: number;
     txid: string;
     createdAt: number;
     dayKey: string;
+    dryRun?: boolean;
   }) {
     const stmt = this.db.prepare(`
       INSERT INTO trivia_payouts (
         trivia_id,
+        winner_id,
         twitter_user_id,
         address,
         rmz_amount,
         txid,
         created_at,
-        day_key
-      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+        day_key,
+        dry_run,
+        amount_unit
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'rmz')
     `);
     stmt.run(
       params.triviaId,
+      params.winnerId,
       params.twitterUserId,
       params.address,
       params.rmzAmount,
       params.txid,
       params.createdAt,
-      params.dayKey
+      params.dayKey,
+      params.dryRun ? 1 : 0
     );
   }
 
+  // Queues the payout of an unpaid claim. Returns false when the claim is
+  // paid, voided or expired, or already has a live job. The code and expiry
+  // are checked again here: a reroll reuses the winner row for someone else.
+  createPayoutJob(params: {
+    jobId: string;
+    winnerId: number;
+    claimCode: string;
+    address: string;
+    rmzAmount: number;
+    dayKey: string;
+    dryRun: boolean;
+    now: number;
+  }) {
+    const result = this.db
+      .prepare(
+        `INSERT OR IGNORE INTO payout_jobs (
+           job_id,
+           trivia_id,
+           winner_id,
+           twitter_user_id,
+           address,
+           rmz_amount,
+           day_key,
+           dry_run,
+           amount_unit,
+           status,
+           created_at,
+           updated_at
+         )
+         SELECT ?, trivia_id, id, twitter_user_id, ?, ?, ?, ?, 'rmz', 'pending', ?, ?
+         FROM trivia_winners
+         WHERE id = ?
+           AND claim_code = ?
+           AND (claim_expires_at IS NULL OR claim_expires_at >= ?)
+           AND used_at IS NULL
+           AND voided_at IS NULL
+           AND expired_at IS NULL`
+      )
+      .run(
+        params.jobId,
+        params.address,
+        params.rmzAmount,
+        params.dayKey,
+        params.dryRun ? 1 : 0,
+        params.now,
+        params.now,
+        params.winnerId,
+        params.claimCode,
+        params.now
+      );
+    return result.changes > 0;
+  }
+
+  getPayoutJob(jobId: string): PayoutJobRecord | undefined {
+    return this.db
+      .prepare("SELECT * FROM payout_jobs WHERE job_id = ?")
+      .get(jobId) as PayoutJobRecord | undefined;
+  }
+
+  // Broadcast payouts whose transaction is not final yet.
+  listTrackedPayoutJobs(): PayoutJobRecord[] {
+    return this.db
+      .prepare(
+        `SELECT * FROM payout_jobs
+         WHERE status IN ('broadcast', 'confirmed')
+         ORDER BY created_at ASC`
+      )
+      .all() as PayoutJobRecord[];
+  }
+
+  // Newest first, for the admin payout listing.
+  listPayoutJobs(params: {
+    status?: PayoutJobStatus;
+    limit: number;
+  }): PayoutJobRecord[] {
+    if (params.status) {
+      return this.db
+        .prepare(
+          "SELECT * FROM payout_jobs WHERE status = ? ORDER BY updated_at DESC, job_id ASC LIMIT ?"
+        )
+        .all(params.status, params.limit) as PayoutJobRecord[];
+    }
+    return this.db
+      .prepare(
+        "SELECT * FROM payout_jobs ORDER BY updated_at DESC, job_id ASC LIMIT ?"
+      )
+      .all(params.limit) as PayoutJobRecord[];
+  }
+
+  getPayoutJobByTxid(txid: string): PayoutJobRecord | undefined {
+    return this.db
+      .prepare("SELECT * FROM payout_jobs WHERE txid = ?")
+      .get(txid) as PayoutJobRecord | undefined;
+  }
+
+  getLivePayoutJob(winnerId: number): PayoutJobRecord | undefined {
+    return this.db
+      .prepare(
+        "SELECT * FROM payout_jobs WHERE winner_id = ? AND status NOT IN ('failed', 'dropped')"
+      )
+      .get(winnerId) as PayoutJobRecord | undefined;
+  }
+
+  // Jobs the worker still has to sign or broadcast, signed ones first.
+  listRunnablePayoutJobs(now: number): PayoutJobRecord[] {
+    return this.db
+      .prepare(
+        `SELECT * FROM payout_jobs
+         WHERE status IN ('pending', 'signed')
+           AND (next_attempt_at IS NULL OR next_attempt_at <= ?)
+           AND (lock_expires_at IS NULL OR lock_expires_at < ?)
+         ORDER BY status = 'signed' DESC, created_at ASC`
+      )
+      .all(now, now) as PayoutJobRecord[];
+  }
+
+  // A signed transaction that has not reached the network still holds its
+  // inputs, which the wallet sees as unspent.
+  hasUnbroadcastPayoutJob() {
+    const row = this.db
+      .prepare(
+        "SELECT 1 FROM payout_jobs WHERE status = 'signed' AND dry_run = 0 LIMIT 1"
+      )
+      .get();
+    return Boolean(row);
+  }
+
+  // Payouts queued but not broadcast yet, counted against the daily caps.
+  getQueuedPayoutTotals(params: { dayKey: string; address: string }): {
+    totalRmz: number;
+    addressRmz: number;
+    addressCount: number;
+  } {
+    const row = this.db
+      .prepare(
+        `SELECT
+           COALESCE(SUM(rmz_amount), 0) AS totalRmz,
+           COALESCE(SUM(CASE WHEN address = ? THEN rmz_amount ELSE 0 END), 0) AS addressRmz,
+           COALESCE(SUM(CASE WHEN address = ? THEN 1 ELSE 0 END), 0) AS addressCount
+         FROM payout_jobs
+         WHERE day_key = ? AND status IN ('pending', 'signed') AND dry_run = 0`
+      )
+      .get(params.address, params.address, params.dayKey) as
+      | { totalRmz: number; addressRmz: number; addressCount: number }
+      | undefined;
+    return {
+      totalRmz: row?.totalRmz ?? 0,
+      addressRmz: row?.addressRmz ?? 0,
+      addressCount: row?.addressCount ?? 0,
+    };
+  }
+
+  acquirePayoutJobLock(params: {
+    jobId: string;
+    lockExpiresAt: number;
+    now: number;
+  }) {
+    const result = this.db
+      .prepare(
+        `UPDATE payout_jobs
+         SET lock_expires_at = ?
+         WHERE job_id = ?
+           AND (lock_expires_at IS NULL OR lock_expires_at < ?)`
+      )
+      .run(params.lockExpiresAt, params.jobId, params.now);
+    return result.changes > 0;
+  }
+
+  releasePayoutJobLock(jobId: string) {
+    this.db
+      .prepare("UPDATE payout_jobs SET lock_expires_at = NULL WHERE job_id = ?")
+      .run(jobId);
+  }
+
+  // Stored before the broadcast so a retry sends these exact bytes.
+  markPayoutJobSigned(params: {
+    jobId: string;
+    rawTx: string;
+    txid: string;
+    now: number;
+  }) {
+    const result = this.db
+      .prepare(
+        `UPDATE payout_jobs
+         SET status = 'signed', raw_tx = ?, txid = ?, updated_at = ?
+         WHERE job_id = ? AND status = 'pending'`
+      )
+      .run(params.rawTx, params.txid, params.now, params.jobId);
+    return result.changes > 0;
+  }
+
+  // The claim counts as paid from here on, as it did when payouts were sent
+  // inline.
+  markPayoutJobBroadcast(params: { jobId: string; now: number }) {
+    const tx = this.db.transaction(() => {
+      const job = this.getPayoutJob(params.jobId);
+      if (!job || job.status !== "signed") return false;
+      this.db
+        .prepare(
+          `UPDATE payout_jobs
+           SET status = 'broadcast',
+               broadcast_at = ?,
+               next_attempt_at = NULL,
+               updated_at = ?
+           WHERE job_id = ?`
+        )
+        .run(params.now, params.now, params.jobId);
+      const winner = this.db
+        .prepare("SELECT claim_code FROM trivia_winners WHERE id = ?")
+        .get(job.winner_id) as { claim_code: string } | undefined;
+      const recorded = this.recordPayoutAndMarkClaim({
+        claimCode: winner?.claim_code ?? "",
+        triviaId: job.trivia_id,
+        winnerId: job.winner_id,
+        usedAt: params.now,
+        usedAddress: job.address,
+        txid: job.txid,
+        twitterUserId: job.twitter_user_id,
+        rmzAmount: job.rmz_amount,
+        dayKey: job.day_key,
+      });
+      if (!recorded) {
+        elizaLogger.warn(
+          `Payout job ${params.jobId} broadcast but its claim was already marked.`
+        );
+      }
+      return true;
+    });
+    return tx();
+  }
+
+  // Marks the claim paid like a broadcast would, but the payout row is
+  // flagged and kept out of the daily caps.
+  markPayoutJobDryRun(params: { jobId: string; now: number }) {
+    const tx = this.db.transaction(() => {
+      const job = this.getPayoutJob(params.jobId);
+      if (!job || job.status !== "signed" || !job.dry_run) return false;
+      this.db
+        .prepare(
+          `UPDATE payout_jobs
+           SET status = 'dry_run', next_attempt_at = NULL, updated_at = ?
+           WHERE job_id = ?`
+        )
+        .run(params.now, params.jobId);
+      const winner = this.db
+        .prepare("SELECT claim_code FROM trivia_winners WHERE id = ?")
+        .get(job.winner_id) as { claim_code: string } | undefined;
+      return this.recordPayoutAndMarkClaim({
+        claimCode: winner?.claim_code ?? "",
+        triviaId: job.trivia_id,
+        winnerId: job.winner_id,
+        usedAt: params.now,
+        usedAddress: job.address,
+        txid: job.txid,
+        twitterUserId: job.twitter_user_id,
+        rmzAmount: job.rmz_amount,
+        dayKey: job.day_key,
+        dryRun: true,
+      });
+    });
+    return tx();
+  }
+
+  // Also moves a confirmed job to the block a reorg put its tx in.
+  markPayoutJobConfirmed(params: {
+    jobId: string;
+    blockHeight: number;
+    now: number;
+  }) {
+    const result = this.db
+      .prepare(
+        `UPDATE payout_jobs
+         SET status = 'confirmed',
+             block_height = ?,
+             confirmed_at = ?,
+             checked_at = ?,
+             updated_at = ?
+         WHERE job_id = ? AND status IN ('broadcast', 'confirmed')`
+      )
+      .run(
+        params.blockHeight,
+        params.now,
+        params.now,
+        params.now,
+        params.jobId
+      );
+    return result.changes > 0;
+  }
+
+  // Avalanche can finalize a tx before it is mined, so this also applies to
+  // jobs still in the mempool.
+  markPayoutJobFinalized(params: {
+    jobId: string;
+    blockHeight: number | null;
+    now: number;
+  }) {
+    const result = this.db
+      .prepare(
+        `UPDATE payout_jobs
+         SET status = 'finalized',
+             block_height = COALESCE(?, block_height),
+             confirmed_at = CASE WHEN ? IS NULL THEN confirmed_at ELSE COALESCE(confirmed_at, ?) END,
+             finalized_at = ?,
+             checked_at = ?,
+             updated_at = ?
+         WHERE job_id = ? AND status IN ('broadcast', 'confirmed')`
+      )
+      .run(
+        params.blockHeight,
+        params.blockHeight,
+        params.now,
+        params.now,
+        params.now,
+        params.now,
+        params.jobId
+      );
+    return result.changes > 0;
+  }
+
+  // A reorg took the tx out of its block; it is watched as unmined again.
+  markPayoutJobUnconfirmed(params: { jobId: string; now: number }) {
+    const result = this.db
+      .prepare(
+        `UPDATE payout_jobs
+         SET status = 'broadcast',
+             block_height = NULL,
+             confirmed_at = NULL,
+             checked_at = ?,
+             updated_at = ?
+         WHERE job_id = ? AND status = 'confirmed'`
+      )
+      .run(params.now, params.now, params.jobId);
+    return result.changes > 0;
+  }
+
+  // Only once a mined transaction spent the job's inputs, so its bytes can
+  // never confirm. The payout comes back out of the daily caps and the claim
+  // reopens until `claimExpiresAt` at the earliest.
+  markPayoutJobDropped(params: {
+    jobId: string;
+    error: string;
+    claimExpiresAt: number;
+    now: number;
+  }) {
+    const tx = this.db.transaction(() => {
+      const job = this.getPayoutJob(params.jobId);
+      if (!job || job.status !== "broadcast") return false;
+      this.db
+        .prepare(
+          `UPDATE payout_jobs
+           SET status = 'dropped', last_error = ?, checked_at = ?, updated_at = ?
+           WHERE job_id = ?`
+        )
+        .run(params.error, params.now, params.now, params.jobId);
+      const removed = this.db
+        .prepare("DELETE FROM trivia_payouts WHERE winner_id = ? AND txid = ?")
+        .run(job.winner_id, job.txid);
+      if (removed.changes > 0 && !job.dry_run) {
+        this.incrementDailySpend(job.day_key, -job.rmz_amount);
+      }
+      this.db
+        .prepare(
+          `UPDATE trivia_winners
+           SET used_at = NULL,
+               used_address = NULL,
+               txid = NULL,
+               invalid_attempts = 0,
+               lock_expires_at = NULL,
+               claim_expires_at = CASE
+                 WHEN claim_expires_at IS NULL THEN NULL
+                 ELSE MAX(claim_expires_at, ?)
+               END
+           WHERE id = ? AND txid = ?`
+        )
+        .run(params.claimExpiresAt, job.winner_id, job.txid);
+      return true;
+    });
+    return tx();
+  }
+
+  markPayoutJobChecked(jobId: string, checkedAt: number) {
+    this.db
+      .prepare("UPDATE payout_jobs SET checked_at = ? WHERE job_id = ?")
+      .run(checkedAt, jobId);
+  }
+
+  recordPayoutJobError(params: {
+    jobId: string;
+    error: string;
+    nextAttemptAt: number;
+    now: number;
+  }) {
+    this.db
+      .prepare(
+        `UPDATE payout_jobs
+         SET attempts = attempts + 1,
+             last_error = ?,
+             next_attempt_at = ?,
+             updated_at = ?
+         WHERE job_id = ?`
+      )
+      .run(params.error, params.nextAttemptAt, params.now, params.jobId);
+  }
+
+  // Only for jobs that can never reach the chain: unsigned ones, or signed
+  // ones whose inputs a mined transaction already spent. The claim can then
+  // be retried.
+  failPayoutJob(params: { jobId: string; error: string; now: number }) {
+    const tx = this.db.transaction(() => {
+      const job = this.getPayoutJob(params.jobId);
+      if (!job || (job.status !== "pending" && job.status !== "signed")) {
+        return false;
+      }
+      this.db
+        .prepare(
+          `UPDATE payout_jobs
+           SET status = 'failed',
+               attempts = attempts + 1,
+               last_error = ?,
+               next_attempt_at = NULL,
+               updated_at = ?
+           WHERE job_id = ?`
+        )
+        .run(params.error, params.now, params.jobId);
+      this.clearClaimLock(job.winner_id);
+      return true;
+    });
+    return tx();
+  }
+
+  hasPayoutAmountsInAtoms() {
+    const row = this.db
+      .prepare(
+        `SELECT 1 FROM trivia_payouts WHERE amount_unit = 'atoms'
+         UNION ALL
+         SELECT 1 FROM payout_jobs WHERE amount_unit = 'atoms'
+         LIMIT 1`
+      )
+      .get();
+    return Boolean(row);
+  }
+
+  // Old payouts sent their amount as base atoms, so with `decimals` > 0 the
+  // recorded figures are divided down to RMZ and the daily totals rebuilt
+  // from them. Jobs without signed bytes were queued from the configured
+  // reward, which was already meant in RMZ, and keep their amount.
+  migratePayoutAmountsToRmz(decimals: number) {
+    const scale = 10 ** decimals;
+    const tx = this.db.transaction(() => {
+      const payouts = this.db
+        .prepare(
+          `UPDATE trivia_payouts
+           SET rmz_amount = rmz_amount * 1.0 / ?, amount_unit = 'rmz'
+           WHERE amount_unit = 'atoms'`
+        )
+        .run(scale);
+      const jobs = this.db
+        .prepare(
+          `UPDATE payout_jobs
+           SET rmz_amount = CASE
+                 WHEN raw_tx IS NULL THEN rmz_amount
+                 ELSE rmz_amount * 1.0 / ?
+               END,
+               amount_unit = 'rmz'
+           WHERE amount_unit = 'atoms'`
+        )
+        .run(scale);
+      this.db.exec(`
+        UPDATE daily_spend
+        SET total_rmz = (
+          SELECT COALESCE(SUM(rmz_amount), 0)
+          FROM trivia_payouts
+          WHERE trivia_payouts.day_key = daily_spend.day_key
+            AND dry_run = 0
+        )
+      `);
+      return { payouts: payouts.changes, jobs: jobs.changes };
+    });
+    return tx();
+  }
+
   getDailySpend(dayKey: string): number {
     const row = this.db
       .prepare("SELECT total_rmz FROM daily_spend WHERE day_key = ?")
@@ -518,12 +2585,14 @@ export class TriviaRewardsStore {
   recordPayoutAndMarkClaim(params: {
     claimCode: string;
     triviaId: string;
+    winnerId: number;
     usedAt: number;
     usedAddress: string;
     txid: string;
     twitterUserId: string;
     rmzAmount: number;
     dayKey: string;
+    dryRun?: boolean;
   }) {
     const tx = this.db.transaction(() => {
       const updated = this.markClaimPaid({
@@ -535,14 +2604,18 @@ export class TriviaRewardsStore {
       if (!updated) return false;
       this.insertPayout({
         triviaId: params.triviaId,
+        winnerId: params.winnerId,
         twitterUserId: params.twitterUserId,
         address: params.usedAddress,
         rmzAmount: params.rmzAmount,
         txid: params.txid,
         createdAt: params.usedAt,
         dayKey: params.dayKey,
+        dryRun: params.dryRun,
       });
-      this.incrementDailySpend(params.dayKey, params.rmzAmount);
+      if (!params.dryRun) {
+        this.incrementDailySpend(params.dayKey, params.rmzAmount);
+      }
       return true;
     });
     return tx();
@@ -554,7 +2627,7 @@ export class TriviaRewardsStore {
   } {
     const row = this.db
       .prepare(
-        "SELECT COUNT(1) as winCount, COALESCE(SUM(rmz_amount), 0) as totalRmz FROM trivia_payouts WHERE day_key = ? AND address = ?"
+        "SELECT COUNT(1) as winCount, COALESCE(SUM(rmz_amount), 0) as totalRmz FROM trivia_payouts WHERE day_key = ? AND address = ? AND dry_run = 0"
       )
       .get(dayKey, address) as
       | { winCount: number; totalRmz: number }
@@ -0,0 +1,257 @@
+import { elizaLogger } from "@elizaos/core";
+import type {
+  AnswerRules,
+  TriviaAdminActionRecord,
+  TriviaRecord,
+  TriviaRewardsStore,
+} from "../db/triviaRewards.ts";
+import { computeDrawBlockHeight, normalizeAnswer } from "./helpers.ts";
+import { getBlockHeight } from "./chronik.ts";
+import { getDrawBlockOffset } from "./create.ts";
+import {
+  matchAnswer,
+  parseAnswerRules,
+  parseStoredAnswerRules,
+} from "./answerMatching.ts";
+import type { CloseTriviaOutcome } from "./close.ts";
+
+const ACTOR_MAX_LENGTH = 100;
+const REASON_MAX_LENGTH = 500;
+const EXTEND_MINUTES_MAX = 7 * 24 * 60;
+
+export type AdminActionOutcome = CloseTriviaOutcome;
+
+const actionFailure = (status: number, error: string): AdminActionOutcome => ({
+  status,
+  body: { error },
+});
+
+// The admin token is shared, so every change must say who made it and why.
+const parseActionAuthor = (request: Record<string, any>) => {
+  const actor = typeof request.actor === "string" ? request.actor.trim() : "";
+  const reason =
+    typeof request.reason === "string" ? request.reason.trim() : "";
+  if (!actor || !reason) {
+    return { author: null, error: "actor and reason are required." };
+  }
+  if (actor.length > ACTOR_MAX_LENGTH || reason.length > REASON_MAX_LENGTH) {
+    return {
+      author: null,
+      error: `actor and reason must be at most ${ACTOR_MAX_LENGTH} and ${REASON_MAX_LENGTH} characters.`,
+    };
+  }
+  return { author: { actor, reason } };
+};
+
+export const toAdminActionView = (action: TriviaAdminActionRecord) => ({
+  action: action.action,
+  actor: action.actor,
+  reason: action.reason,
+  details: action.details ? JSON.parse(action.details) : null,
+  createdAt: action.created_at,
+});
+
+export const cancelTriviaRound = (params: {
+  store: TriviaRewardsStore;
+  trivia: TriviaRecord;
+  request: Record<string, any>;
+}): AdminActionOutcome => {
+  const { store, trivia } = params;
+  const { author, error } = parseActionAuthor(params.request);
+  if (!author) {
+    return actionFailure(400, error);
+  }
+  if (trivia.status !== "open") {
+    return actionFailure(409, `Trivia is ${trivia.status}.`);
+  }
+  const cancelled = store.cancelTrivia({
+    triviaId: trivia.trivia_id,
+    ...author,
+    now: Date.now(),
+  });
+  if (!cancelled) {
+    return actionFailure(409, "Trivia close in progress.");
+  }
+  elizaLogger.log(`Trivia cancelled: ${trivia.trivia_id} by ${author.actor}`);
+  return {
+    status: 200,
+    body: { triviaId: trivia.trivia_id, status: "cancelled" },
+  };
+};
+
+export const voidTriviaRound = (params: {
+  store: TriviaRewardsStore;
+  trivia: TriviaRecord;
+  request: Record<string, any>;
+}): AdminActionOutcome => {
+  const { store, trivia } = params;
+  const { author, error } = parseActionAuthor(params.request);
+  if (!author) {
+    return actionFailure(400, error);
+  }
+  if (trivia.status !== "closed") {
+    return actionFailure(409, `Trivia is ${trivia.status}.`);
+  }
+  const now = Date.now();
+  const voided = store.voidTrivia({
+    triviaId: trivia.trivia_id,
+    ...author,
+    now,
+  });
+  if (!voided) {
+    const paid = store
+      .listWinners(trivia.trivia_id)
+      .some((winner) => winner.used_at);
+    return actionFailure(
+      409,
+      paid || trivia.used_at
+        ? "A claim was already paid."
+        : "A payout is queued or a claim is rate limited; retry later."
+    );
+  }
+  elizaLogger.log(`Trivia voided: ${trivia.trivia_id} by ${author.actor}`);
+  return {
+    status: 200,
+    body: { triviaId: trivia.trivia_id, status: "voided", voidedAt: now },
+  };
+};
+
+// Replies keep being ingested until the new closes_at. The draw block must
+// stay unmined until then, or its hash would be public while entries are
+// still accepted; the commitment moves to a later block when needed, which
+// is only allowed while the committed block does not exist yet.
+export const extendTriviaRound = async (params: {
+  store: TriviaRewardsStore;
+  trivia: TriviaRecord;
+  request: Record<string, any>;
+}): Promise<AdminActionOutcome> => {
+  const { store, trivia } = params;
+  const { author, error } = parseActionAuthor(params.request);
+  if (!author) {
+    return actionFailure(400, error);
+  }
+  const minutes = Number(params.request.minutes);
+  if (
+    !Number.isInteger(minutes) ||
+    minutes < 1 ||
+    minutes > EXTEND_MINUTES_MAX
+  ) {
+    return actionFailure(
+      400,
+      `minutes must be a whole number between 1 and ${EXTEND_MINUTES_MAX}.`
+    );
+  }
+  if (trivia.status !== "open") {
+    return actionFailure(409, `Trivia is ${trivia.status}.`);
+  }
+  const now = Date.now();
+  const closesAt = Math.max(trivia.closes_at, now) + minutes * 60 * 1000;
+  let drawBlockHeight = trivia.draw_block_height;
+  if (drawBlockHeight !== null) {
+    const currentHeight = await getBlockHeight();
+    if (currentHeight >= drawBlockHeight) {
+      return actionFailure(
+        409,
+        `Draw block ${drawBlockHeight} is already mined (tip ${currentHeight}).`
+      );
+    }
+    drawBlockHeight = Math.max(
+      drawBlockHeight,
+      computeDrawBlockHeight({
+        currentHeight,
+        windowMinutes:
+          Math.ceil((closesAt - now) / 60000) + (trivia.review_minutes || 0),
+        offsetBlocks: getDrawBlockOffset(),
+      })
+    );
+  }
+  const extended = store.extendTrivia({
+    triviaId: trivia.trivia_id,
+    closesAt,
+    drawBlockHeight,
+    ...author,
+    now,
+  });
+  if (!extended) {
+    return actionFailure(409, "Trivia close in progress.");
+  }
+  elizaLogger.log(
+    `Trivia extended: ${trivia.trivia_id} to ${new Date(closesAt).toISOString()} by ${author.actor} (draw block ${drawBlockHeight})`
+  );
+  return {
+    status: 200,
+    body: {
+      triviaId: trivia.trivia_id,
+      closesAt,
+      drawBlockHeight,
+    },
+  };
+};
+
+// Fixes the accepted answers (and optionally the matching rules) of an open
+// trivia and regrades the replies already stored.
+export const updateTriviaAnswers = (params: {
+  store: TriviaRewardsStore;
+  trivia: TriviaRecord;
+  request: Record<string, any>;
+}): AdminActionOutcome => {
+  const { store, trivia, request } = params;
+  const { author, error } = parseActionAuthor(request);
+  if (!author) {
+    return actionFailure(400, error);
+  }
+  if (trivia.status !== "open") {
+    return actionFailure(409, `Trivia is ${trivia.status}.`);
+  }
+  const isLlmGraded = trivia.grading_mode === "llm";
+  if (!Array.isArray(request.correctAnswers)) {
+    return actionFailure(400, "correctAnswers must be an array.");
+  }
+  const correctAnswers: string[] = request.correctAnswers
+    .map((answer: unknown) =>
+      typeof answer === "string" ? normalizeAnswer(answer) : ""
+    )
+    .filter(Boolean);
+  if (!correctAnswers.length && !isLlmGraded) {
+    return actionFailure(400, "No valid answers provided.");
+  }
+  const parsedRules: { rules: AnswerRules | null; error?: string } =
+    request.answerRules === undefined
+      ? {
+          rules: trivia.answer_rules
+            ? parseStoredAnswerRules(trivia.answer_rules)
+            : null,
+        }
+      : parseAnswerRules(request.answerRules);
+  if (parsedRules.error) {
+    return actionFailure(400, parsedRules.error);
+  }
+
+  const updated = store.updateTriviaAnswers({
+    triviaId: trivia.trivia_id,
+    correctAnswers,
+    answerRules: parsedRules.rules,
+    gradeReply: isLlmGraded
+      ? null
+      : (text) =>
+          matchAnswer({ text, correctAnswers, rules: parsedRules.rules }),
+    ...author,
+    now: Date.now(),
+  });
+  if (!updated) {
+    return actionFailure(409, "Trivia close in progress.");
+  }
+  elizaLogger.log(
+    `Trivia answers updated: ${trivia.trivia_id} by ${author.actor} (${updated.regraded} replies regraded)`
+  );
+  return {
+    status: 200,
+    body: {
+      triviaId: trivia.trivia_id,
+      correctAnswers,
+      answerRules: parsedRules.rules,
+      regradedReplies: updated.regraded,
+      correctReplies: isLlmGraded ? null : updated.correct,
+    },
+  };
+};
@@ -0,0 +1,171 @@
+import { elizaLogger } from "@elizaos/core";
+import type {
+  TriviaLanguage,
+  TriviaRecord,
+  TriviaRewardsStore,
+  TriviaWinnerInsert,
+} from "../db/triviaRewards.ts";
+
+export type AnnounceReplyTarget = "trivia" | "winner";
+
+// Overridable per character through settings.trivia.announcementTemplates.
+// {winners} lists every winner with their reward; {winner} and {rewardRmz}
+// refer to first place. The claim code is never part of the public text: the
+// claim page hands it to the winner, otherwise anyone could redeem it.
+const DEFAULT_ANNOUNCEMENT_TEMPLATES: Record<TriviaLanguage, string> = {
+  es: "Trivia {triviaId} cerrada. Ganadores: {winners}. Reclama tu premio antes de {claimExpiresAt}: {claimUrl}",
+  en: "Trivia {triviaId} closed. Winners: {winners}. Claim your reward before {claimExpiresAt}: {claimUrl}",
+};
+
+// settings.trivia.rerollTemplates; {rank} is the prize that was rerolled.
+const DEFAULT_REROLL_TEMPLATES: Record<TriviaLanguage, string> = {
+  es: "El premio {rank} de la trivia {triviaId} no se reclamó a tiempo. Nuevo ganador: {winner} ({rewardRmz} RMZ). Reclama antes de {claimExpiresAt}: {claimUrl}",
+  en: "Prize {rank} of trivia {triviaId} went unclaimed. New winner: {winner} ({rewardRmz} RMZ). Claim before {claimExpiresAt}: {claimUrl}",
+};
+
+const WINNER_FALLBACK: Record<TriviaLanguage, string> = {
+  es: "La persona ganadora",
+  en: "The winner",
+};
+
+const getAnnouncementTemplate = (
+  runtime: any,
+  language: TriviaLanguage,
+  setting: "announcementTemplates" | "rerollTemplates" = "announcementTemplates"
+) => {
+  const templates = runtime?.character?.settings?.trivia?.[setting];
+  const template = templates?.[language];
+  if (typeof template === "string" && template.trim()) {
+    return template;
+  }
+  return setting === "rerollTemplates"
+    ? DEFAULT_REROLL_TEMPLATES[language]
+    : DEFAULT_ANNOUNCEMENT_TEMPLATES[language];
+};
+
+const buildClaimUrl = (triviaId: string) => {
+  const template = process.env.TRIVIA_CLAIM_URL;
+  if (!template) return "";
+  return template.replace(/\{triviaId\}/g, encodeURIComponent(triviaId));
+};
+
+export const renderTemplate = (
+  template: string,
+  values: Record<string, string>
+) =>
+  template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in values ? values[key] : match
+  );
+
+const formatWinnerHandle = (
+  winner: Pick<TriviaWinnerInsert, "twitter_username">,
+  language: TriviaLanguage
+) =>
+  winner.twitter_username
+    ? `@${winner.twitter_username}`
+    : WINNER_FALLBACK[language];
+
+export const announceTriviaWinners = async (params: {
+  store: TriviaRewardsStore;
+  runtime: any;
+  twitterManager: any;
+  trivia: TriviaRecord;
+  winners: TriviaWinnerInsert[];
+  claimExpiresAt: number;
+  replyTo?: AnnounceReplyTarget;
+}) => {
+  const { store, runtime, twitterManager, trivia, winners } = params;
+  const [winner] = winners;
+  if (!winner) return null;
+  if (typeof twitterManager?.reply !== "function") {
+    elizaLogger.warn(
+      `Trivia announcement skipped (reply not supported): ${trivia.trivia_id}`
+    );
+    return null;
+  }
+
+  const language: TriviaLanguage = trivia.language === "en" ? "en" : "es";
+  const replyTarget =
+    params.replyTo === "winner" && winners.length === 1 && winner.tweet_id
+      ? winner.tweet_id
+      : trivia.tweet_id;
+  const text = renderTemplate(getAnnouncementTemplate(runtime, language), {
+    winner: formatWinnerHandle(winner, language),
+    winners: winners
+      .map(
+        (entry) =>
+          `${formatWinnerHandle(entry, language)} (${entry.reward_rmz} RMZ)`
+      )
+      .join(", "),
+    triviaId: trivia.trivia_id,
+    rewardRmz: String(winner.reward_rmz),
+    claimExpiresAt: new Date(params.claimExpiresAt).toISOString(),
+    claimUrl: buildClaimUrl(trivia.trivia_id),
+  }).trim();
+
+  try {
+    const posted = await twitterManager.reply(text, replyTarget);
+    const announcementTweetId = posted?.data?.id ?? null;
+    if (announcementTweetId) {
+      store.setAnnouncementTweetId(trivia.trivia_id, announcementTweetId);
+    }
+    elizaLogger.log(
+      `Trivia winner announced: ${trivia.trivia_id} tweet ${announcementTweetId}`
+    );
+    return announcementTweetId;
+  } catch (error) {
+    // The draw is already committed; a failed announcement must not undo it.
+    const message = error instanceof Error ? error.message : String(error);
+    elizaLogger.warn(
+      `Trivia winner announcement failed: ${trivia.trivia_id} ${message}`
+    );
+    return null;
+  }
+};
+
+// Posted in the thread of the original announcement when there is one.
+export const announceRerolledWinner = async (params: {
+  runtime: any;
+  twitterManager: any;
+  trivia: TriviaRecord;
+  winner: TriviaWinnerInsert;
+}) => {
+  const { runtime, twitterManager, trivia, winner } = params;
+  if (typeof twitterManager?.reply !== "function") {
+    elizaLogger.warn(
+      `Trivia reroll announcement skipped (reply not supported): ${trivia.trivia_id}`
+    );
+    return null;
+  }
+
+  const language: TriviaLanguage = trivia.language === "en" ? "en" : "es";
+  const text = renderTemplate(
+    getAnnouncementTemplate(runtime, language, "rerollTemplates"),
+    {
+      rank: String(winner.rank),
+      winner: formatWinnerHandle(winner, language),
+      triviaId: trivia.trivia_id,
+      rewardRmz: String(winner.reward_rmz),
+      claimExpiresAt: new Date(winner.claim_expires_at).toISOString(),
+      claimUrl: buildClaimUrl(trivia.trivia_id),
+    }
+  ).trim();
+
+  try {
+    const posted = await twitterManager.reply(
+      text,
+      trivia.announcement_tweet_id ?? trivia.tweet_id
+    );
+    const tweetId = posted?.data?.id ?? null;
+    elizaLogger.log(
+      `Trivia reroll announced: ${trivia.trivia_id} rank ${winner.rank} tweet ${tweetId}`
+    );
+    return tweetId;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    elizaLogger.warn(
+      `Trivia reroll announcement failed: ${trivia.trivia_id} ${message}`
+    );
+    return null;
+  }
+};
@@ -0,0 +1,171 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import type { AnswerRules } from "../db/triviaRewards.ts";
+import {
+  DEFAULT_ANSWER_RULES,
+  levenshtein,
+  matchAnswer,
+  parseAnswerRules,
+  parseStoredAnswerRules,
+  stripMentionsAndUrls,
+} from "./answerMatching.ts";
+
+const rules = (overrides: Partial<AnswerRules>): AnswerRules => ({
+  ...DEFAULT_ANSWER_RULES,
+  ...overrides,
+});
+
+const isCorrect = (
+  text: string,
+  correctAnswers: string[],
+  answerRules?: AnswerRules
+) => matchAnswer({ text, correctAnswers, rules: answerRules }).isCorrect;
+
+describe("stripMentionsAndUrls", () => {
+  test("drops mentions, links and eCash addresses", () => {
+    assert.equal(
+      stripMentionsAndUrls(
+        "@xologuardian 1325 https://t.co/abc ecash:qr6lws9uwmjkkaau4w956lugs9nlg9hudqs26lyxkv"
+      ),
+      "1325"
+    );
+  });
+
+  test("keeps e-mail like text", () => {
+    assert.equal(stripMentionsAndUrls("me@home"), "me@home");
+  });
+});
+
+describe("exact mode", () => {
+  test("matches the whole normalized reply", () => {
+    assert.equal(
+      isCorrect("@xologuardian Tenochtitlán!", ["tenochtitlan"]),
+      true
+    );
+    assert.equal(isCorrect("creo que tenochtitlan", ["tenochtitlan"]), false);
+  });
+});
+
+describe("contains mode", () => {
+  const contains = rules({ mode: "contains" });
+
+  test("finds the answer anywhere in the reply", () => {
+    assert.equal(isCorrect("creo que fue en 1325", ["1325"], contains), true);
+    assert.equal(
+      isCorrect("la gran tenochtitlan, claro", ["gran tenochtitlan"], contains),
+      true
+    );
+  });
+
+  test("aligns to whole words", () => {
+    assert.equal(isCorrect("fue en 13250", ["1325"], contains), false);
+  });
+});
+
+describe("edit distance", () => {
+  test("levenshtein counts insertions, deletions and substitutions", () => {
+    assert.equal(levenshtein("kitten", "sitting"), 3);
+    assert.equal(levenshtein("", "abc"), 3);
+    assert.equal(levenshtein("quetzal", "quetzal"), 0);
+  });
+
+  test("accepts typos up to maxEditDistance", () => {
+    const oneTypo = rules({ maxEditDistance: 1 });
+    assert.equal(isCorrect("quetzalcoatl", ["quetzalcoatl"], oneTypo), true);
+    assert.equal(isCorrect("quetzalcoalt", ["quetzalcoatl"], oneTypo), false);
+    assert.equal(isCorrect("quetzalcatl", ["quetzalcoatl"], oneTypo), true);
+    const twoTypos = rules({ maxEditDistance: 2 });
+    assert.equal(isCorrect("quetzalcoalt", ["quetzalcoatl"], twoTypos), true);
+  });
+
+  test("applies to each window in contains mode", () => {
+    assert.equal(
+      isCorrect(
+        "es quetzalcatl obvio",
+        ["quetzalcoatl"],
+        rules({ mode: "contains", maxEditDistance: 1 })
+      ),
+      true
+    );
+  });
+});
+
+describe("numeric range", () => {
+  const range = rules({ numericRange: { min: 1520, max: 1522 } });
+  const containsRange = rules({
+    mode: "contains",
+    numericRange: { min: 1520, max: 1522 },
+  });
+
+  test("accepts numbers inside the range", () => {
+    assert.equal(isCorrect("1521", [], range), true);
+    assert.equal(isCorrect("1519", [], range), false);
+  });
+
+  test("exact mode rejects extra text", () => {
+    assert.equal(isCorrect("en 1521", [], range), false);
+    assert.equal(isCorrect("en 1521", [], containsRange), true);
+  });
+
+  test("reads a comma before three digits as a thousands separator", () => {
+    assert.equal(isCorrect("1,521", [], range), true);
+    assert.equal(isCorrect("1,521.5", [], range), true);
+  });
+
+  test("reads other commas as decimal marks", () => {
+    const decimals = rules({ numericRange: { min: 3.1, max: 3.2 } });
+    assert.equal(isCorrect("3,14", [], decimals), true);
+    assert.equal(isCorrect("3.14", [], decimals), true);
+  });
+
+  test("treats a dash after a digit as a separator, not a sign", () => {
+    assert.equal(isCorrect("entre 2024-1521", [], containsRange), true);
+    const negative = rules({ numericRange: { min: -10, max: -1 } });
+    assert.equal(isCorrect("-5", [], negative), true);
+    assert.equal(isCorrect("10-5", [], negative), false);
+  });
+});
+
+describe("patterns", () => {
+  test("match the cleaned reply case-insensitively", () => {
+    const pattern = rules({ patterns: ["^(el )?sol$"] });
+    assert.equal(isCorrect("@xologuardian El Sol", [], pattern), true);
+    assert.equal(isCorrect("la luna", [], pattern), false);
+  });
+});
+
+describe("parseAnswerRules", () => {
+  test("returns null rules when none are sent", () => {
+    assert.deepEqual(parseAnswerRules(undefined), { rules: null });
+  });
+
+  test("fills defaults", () => {
+    assert.deepEqual(parseAnswerRules({ mode: "contains" }), {
+      rules: {
+        mode: "contains",
+        maxEditDistance: 0,
+        numericRange: null,
+        patterns: [],
+      },
+    });
+  });
+
+  test("rejects invalid fields", () => {
+    assert.ok(parseAnswerRules([]).error);
+    assert.ok(parseAnswerRules({ mode: "fuzzy" }).error);
+    assert.ok(parseAnswerRules({ maxEditDistance: 4 }).error);
+    assert.ok(parseAnswerRules({ maxEditDistance: 1.5 }).error);
+    assert.ok(parseAnswerRules({ numericRange: { min: 5, max: 1 } }).error);
+    assert.ok(parseAnswerRules({ numericRange: { min: "a", max: 1 } }).error);
+    assert.ok(parseAnswerRules({ patterns: [""] }).error);
+    assert.ok(parseAnswerRules({ patterns: ["("] }).error);
+  });
+
+  test("stored rules fall back to the defaults", () => {
+    assert.deepEqual(parseStoredAnswerRules(null), DEFAULT_ANSWER_RULES);
+    assert.deepEqual(
+      parseStoredAnswerRules(JSON.stringify({ mode: "contains" })),
+      rules({ mode: "contains" })
+    );
+  });
+});
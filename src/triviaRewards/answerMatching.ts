@@ -0,0 +1,198 @@
+import type { AnswerRules } from "../db/triviaRewards.ts";
+import { ECASH_ADDRESS_REGEX, normalizeAnswer } from "./helpers.ts";
+
+const MAX_EDIT_DISTANCE = 3;
+const MAX_PATTERNS = 10;
+const MAX_PATTERN_LENGTH = 200;
+
+// Trivias created without rules keep the original behaviour: the whole reply
+// must equal one of the answers after normalization.
+export const DEFAULT_ANSWER_RULES: AnswerRules = {
+  mode: "exact",
+  maxEditDistance: 0,
+  numericRange: null,
+  patterns: [],
+};
+
+const MENTION_REGEX = /(^|[^\p{L}\p{N}_])@\w+/gu;
+const URL_REGEX = /\bhttps?:\/\/\S+/gi;
+// A comma before exactly three digits groups thousands ("1,521"); any other
+// comma or dot is a decimal mark. "-" is a sign only when no digit precedes
+// it, so "2024-1521" reads as two numbers.
+const NUMBER_REGEX = /(?<!\d)-?\d+(?:,\d{3}(?!\d))*(?:[.,]\d+)?/g;
+const THOUSANDS_COMMA_REGEX = /,(?=\d{3}(?!\d))/g;
+
+// Replies start with "@xologuardian" and X appends t.co links for media, none
+// of which is part of the answer. eCash addresses link a wallet for weighted
+// draws and are not part of it either.
+export const stripMentionsAndUrls = (text: string) =>
+  text
+    .replace(URL_REGEX, " ")
+    .replace(ECASH_ADDRESS_REGEX, " ")
+    .replace(MENTION_REGEX, "$1")
+    .replace(/\s+/g, " ")
+    .trim();
+
+export const levenshtein = (a: string, b: string) => {
+  const left = Array.from(a);
+  const right = Array.from(b);
+  let previous = Array.from({ length: right.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= left.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= right.length; j += 1) {
+      const cost = left[i - 1] === right[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+    }
+    previous = current;
+  }
+  return previous[right.length];
+};
+
+const isWithinDistance = (
+  candidate: string,
+  answer: string,
+  maxDistance: number
+) =>
+  candidate === answer ||
+  (maxDistance > 0 &&
+    Math.abs(Array.from(candidate).length - Array.from(answer).length) <=
+      maxDistance &&
+    levenshtein(candidate, answer) <= maxDistance);
+
+// In `contains` mode the answer may appear anywhere in the reply, aligned to
+// whole words so "1325" does not match inside "13250".
+const containsAnswer = (
+  normalized: string,
+  answer: string,
+  maxDistance: number
+) => {
+  const words = normalized.split(" ");
+  const size = answer.split(" ").length;
+  for (let start = 0; start + size <= words.length; start += 1) {
+    const window = words.slice(start, start + size).join(" ");
+    if (isWithinDistance(window, answer, maxDistance)) {
+      return true;
+    }
+  }
+  return false;
+};
+
+const parseNumbers = (text: string) =>
+  (text.match(NUMBER_REGEX) ?? []).map((value) =>
+    Number(value.replace(THOUSANDS_COMMA_REGEX, "").replace(",", "."))
+  );
+
+const matchesNumericRange = (cleaned: string, rules: AnswerRules) => {
+  const { numericRange } = rules;
+  if (!numericRange) return false;
+  const numbers = parseNumbers(cleaned);
+  if (rules.mode === "exact" && cleaned.replace(NUMBER_REGEX, "").trim()) {
+    return false;
+  }
+  return numbers.some(
+    (value) => value >= numericRange.min && value <= numericRange.max
+  );
+};
+
+const matchesPattern = (cleaned: string, patterns: string[]) =>
+  patterns.some((pattern) => new RegExp(pattern, "iu").test(cleaned));
+
+export const matchAnswer = (params: {
+  text: string;
+  correctAnswers: string[];
+  rules?: AnswerRules | null;
+}) => {
+  const rules = params.rules ?? DEFAULT_ANSWER_RULES;
+  const cleaned = stripMentionsAndUrls(params.text);
+  const normalized = normalizeAnswer(cleaned);
+
+  const isCorrect =
+    params.correctAnswers.some((answer) =>
+      rules.mode === "contains"
+        ? containsAnswer(normalized, answer, rules.maxEditDistance)
+        : isWithinDistance(normalized, answer, rules.maxEditDistance)
+    ) ||
+    matchesNumericRange(cleaned, rules) ||
+    matchesPattern(cleaned, rules.patterns);
+
+  return { normalized, isCorrect };
+};
+
+export const parseStoredAnswerRules = (value: string | null): AnswerRules => {
+  if (!value) return DEFAULT_ANSWER_RULES;
+  return { ...DEFAULT_ANSWER_RULES, ...(JSON.parse(value) as AnswerRules) };
+};
+
+// Validates the `answerRules` body of POST /api/trivia/create. Regexes are
+// compiled here so a bad pattern is rejected up front instead of at close.
+export const parseAnswerRules = (
+  input: unknown
+): { rules: AnswerRules | null; error?: string } => {
+  if (input === undefined || input === null) {
+    return { rules: null };
+  }
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return { rules: null, error: "answerRules must be an object." };
+  }
+  const raw = input as Record<string, any>;
+
+  const mode = raw.mode ?? DEFAULT_ANSWER_RULES.mode;
+  if (mode !== "exact" && mode !== "contains") {
+    return { rules: null, error: "answerRules.mode must be exact or contains." };
+  }
+
+  const maxEditDistance = Number(raw.maxEditDistance ?? 0);
+  if (
+    !Number.isInteger(maxEditDistance) ||
+    maxEditDistance < 0 ||
+    maxEditDistance > MAX_EDIT_DISTANCE
+  ) {
+    return {
+      rules: null,
+      error: `answerRules.maxEditDistance must be between 0 and ${MAX_EDIT_DISTANCE}.`,
+    };
+  }
+
+  let numericRange: AnswerRules["numericRange"] = null;
+  if (raw.numericRange !== undefined && raw.numericRange !== null) {
+    const min = Number(raw.numericRange?.min);
+    const max = Number(raw.numericRange?.max);
+    if (!Number.isFinite(min) || !Number.isFinite(max) || min > max) {
+      return {
+        rules: null,
+        error: "answerRules.numericRange needs numeric min <= max.",
+      };
+    }
+    numericRange = { min, max };
+  }
+
+  const patterns = raw.patterns ?? [];
+  if (
+    !Array.isArray(patterns) ||
+    patterns.length > MAX_PATTERNS ||
+    patterns.some(
+      (pattern) =>
+        typeof pattern !== "string" ||
+        !pattern ||
+        pattern.length > MAX_PATTERN_LENGTH
+    )
+  ) {
+    return {
+      rules: null,
+      error: `answerRules.patterns must be up to ${MAX_PATTERNS} non-empty strings.`,
+    };
+  }
+  for (const pattern of patterns) {
+    try {
+      new RegExp(pattern, "iu");
+    } catch {
+      return { rules: null, error: `Invalid answer pattern: ${pattern}` };
+    }
+  }
+
+  return { rules: { mode, maxEditDistance, numericRange, patterns } };
+};
@@ -0,0 +1,269 @@
+import { elizaLogger } from "@elizaos/core";
+import type {
+  TriviaCampaignRecord,
+  TriviaRewardsStore,
+} from "../db/triviaRewards.ts";
+import { closeTriviaRound } from "./close.ts";
+import {
+  createTriviaRound,
+  isPrizeMode,
+  validatePrizeConfig,
+} from "./create.ts";
+import { parseClaimPolicy } from "./claimPolicy.ts";
+import { parseWeightCap } from "./weights.ts";
+import { nextCronRun, parseCron } from "./cron.ts";
+import { isQuestionDifficulty, normalizeCategory } from "./questionBank.ts";
+import { isAutoCloseEnabled, startIntervalLoop } from "./scheduler.ts";
+
+const CAMPAIGN_INTERVAL_MS_DEFAULT = 30 * 1000;
+const CAMPAIGN_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,47}$/i;
+
+// Create-endpoint fields a campaign may pin for every run. The question,
+// trivia id and tweet id always come from the run itself.
+const CAMPAIGN_TRIVIA_OPTIONS = [
+  "prizeMode",
+  "tierRewards",
+  "selectionMode",
+  "weightCap",
+  "answerRules",
+  "gradingMode",
+  "rubric",
+  "reviewMinutes",
+  "claimTtlMinutes",
+  "claimLockMinutes",
+  "claimMaxAttempts",
+  "gatingTokenId",
+];
+
+const isCampaignsEnabled = () => process.env.TRIVIA_CAMPAIGNS !== "false";
+
+// One trivia per scheduled minute. createTriviaRound reserves the id before
+// tweeting, so a run retried after a crash hits "Trivia already exists"
+// instead of posting the question twice.
+const buildCampaignTriviaId = (campaignId: string, scheduledAt: number) =>
+  `${campaignId}-${new Date(scheduledAt)
+    .toISOString()
+    .slice(0, 16)
+    .replace(/[-:T]/g, "")}`;
+
+export const toCampaignView = (campaign: TriviaCampaignRecord) => ({
+  campaignId: campaign.campaign_id,
+  name: campaign.name,
+  schedule: campaign.schedule,
+  status: campaign.status,
+  agentId: campaign.agent_id,
+  category: campaign.question_category,
+  difficulty: campaign.question_difficulty,
+  language: campaign.language,
+  windowMinutes: campaign.window_minutes,
+  rewardRmz: campaign.reward_rmz,
+  winnerCount: campaign.winner_count,
+  triviaOptions: campaign.trivia_options
+    ? JSON.parse(campaign.trivia_options)
+    : null,
+  nextRunAt: campaign.next_run_at,
+  lastRunAt: campaign.last_run_at,
+  lastTriviaId: campaign.last_trivia_id,
+  lastError: campaign.last_error,
+  runCount: campaign.run_count,
+});
+
+// Validates the body of POST /api/trivia/campaigns.
+export const parseCampaignInput = (body: any, now: number) => {
+  const raw = body || {};
+  const campaignId = typeof raw.campaignId === "string" ? raw.campaignId : "";
+  if (!CAMPAIGN_ID_PATTERN.test(campaignId)) {
+    return {
+      input: null,
+      error: "campaignId must be 1-48 letters, digits, - or _.",
+    };
+  }
+  const schedule = typeof raw.schedule === "string" ? raw.schedule.trim() : "";
+  let nextRunAt: number | null;
+  try {
+    parseCron(schedule);
+    nextRunAt = nextCronRun(schedule, now);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { input: null, error: `Invalid schedule: ${message}` };
+  }
+  if (nextRunAt === null) {
+    return { input: null, error: "Schedule never runs." };
+  }
+  const questionCategory = normalizeCategory(raw.category);
+  if (!questionCategory) {
+    return { input: null, error: "Missing category (question bank source)." };
+  }
+  if (raw.difficulty !== undefined && !isQuestionDifficulty(raw.difficulty)) {
+    return { input: null, error: "difficulty must be easy, medium or hard." };
+  }
+  const windowMinutes = Math.trunc(Number(raw.windowMinutes));
+  const rewardRmz = Number(raw.rewardRmz);
+  const winnerCount = Math.trunc(Number(raw.winnerCount ?? 1));
+  if (!(windowMinutes > 0) || !(rewardRmz > 0)) {
+    return {
+      input: null,
+      error: "windowMinutes and rewardRmz must be positive.",
+    };
+  }
+
+  const triviaOptions: Record<string, unknown> = {};
+  for (const key of CAMPAIGN_TRIVIA_OPTIONS) {
+    if (raw[key] !== undefined) {
+      triviaOptions[key] = raw[key];
+    }
+  }
+  const prizeMode = triviaOptions.prizeMode ?? "fixed";
+  if (!isPrizeMode(prizeMode)) {
+    return { input: null, error: "prizeMode must be equal, fixed or tiered." };
+  }
+  const prizeError = validatePrizeConfig({
+    winnerCount,
+    prizeMode,
+    rewardRmz,
+    tierRewards: triviaOptions.tierRewards,
+  });
+  if (prizeError) {
+    return { input: null, error: prizeError };
+  }
+  const { error: claimPolicyError } = parseClaimPolicy(triviaOptions);
+  if (claimPolicyError) {
+    return { input: null, error: claimPolicyError };
+  }
+  const { error: weightCapError } = parseWeightCap(triviaOptions.weightCap);
+  if (weightCapError) {
+    return { input: null, error: weightCapError };
+  }
+
+  return {
+    input: {
+      campaignId,
+      name:
+        typeof raw.name === "string" && raw.name.trim() ? raw.name.trim() : null,
+      schedule,
+      agentId:
+        typeof raw.agentId === "string" && raw.agentId ? raw.agentId : null,
+      questionCategory,
+      questionDifficulty: raw.difficulty ?? null,
+      language: raw.language === "en" ? ("en" as const) : ("es" as const),
+      windowMinutes,
+      rewardRmz,
+      winnerCount,
+      triviaOptions: Object.keys(triviaOptions).length ? triviaOptions : null,
+      nextRunAt,
+      createdAt: now,
+    },
+  };
+};
+
+const runCampaign = async (params: {
+  store: TriviaRewardsStore;
+  directClient: any;
+  campaign: TriviaCampaignRecord;
+  now: number;
+}) => {
+  const { store, directClient, campaign, now } = params;
+  const triviaId = buildCampaignTriviaId(
+    campaign.campaign_id,
+    campaign.next_run_at ?? now
+  );
+  // Runs missed while the process was down are skipped, not replayed.
+  const nextRunAt = nextCronRun(campaign.schedule, now);
+  let createdTriviaId: string | null = null;
+  let error: string | null = null;
+  try {
+    const outcome = await createTriviaRound({
+      store,
+      directClient,
+      campaignId: campaign.campaign_id,
+      request: {
+        ...(campaign.trivia_options ? JSON.parse(campaign.trivia_options) : {}),
+        triviaId,
+        category: campaign.question_category,
+        difficulty: campaign.question_difficulty ?? undefined,
+        language: campaign.language,
+        windowMinutes: campaign.window_minutes,
+        rewardRmz: campaign.reward_rmz,
+        winnerCount: campaign.winner_count,
+        agentId: campaign.agent_id ?? undefined,
+      },
+    });
+    if (outcome.status === 200) {
+      createdTriviaId = triviaId;
+    } else {
+      error = String(outcome.body.error);
+    }
+  } catch (runError) {
+    error = runError instanceof Error ? runError.message : String(runError);
+  }
+
+  store.recordCampaignRun({
+    campaignId: campaign.campaign_id,
+    ranAt: now,
+    nextRunAt,
+    triviaId: createdTriviaId,
+    error,
+  });
+  if (error) {
+    elizaLogger.warn(
+      `Trivia campaign run failed: ${campaign.campaign_id} (${error})`
+    );
+  } else {
+    elizaLogger.log(
+      `Trivia campaign run: ${campaign.campaign_id} created ${createdTriviaId}`
+    );
+  }
+};
+
+export const runCampaignTick = async (params: {
+  store: TriviaRewardsStore;
+  directClient: any;
+  now?: number;
+}) => {
+  const { store, directClient } = params;
+  const now = params.now ?? Date.now();
+  for (const campaign of store.listDueCampaigns(now)) {
+    await runCampaign({ store, directClient, campaign, now });
+  }
+
+  // The auto-close scheduler normally closes campaign trivias along with the
+  // rest; when it is off, campaigns still close their own.
+  if (isAutoCloseEnabled()) return;
+  for (const trivia of store.listDueTrivias(now)) {
+    if (!trivia.campaign_id) continue;
+    try {
+      const outcome = await closeTriviaRound({ store, directClient, trivia });
+      if (outcome.status !== 200) {
+        elizaLogger.warn(
+          `Trivia campaign close skipped: ${trivia.trivia_id} (${
+            outcome.body.error ?? outcome.body.status
+          })`
+        );
+      }
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.stack || error.message : String(error);
+      elizaLogger.error(
+        `Trivia campaign close failed: ${trivia.trivia_id} ${errorMessage}`
+      );
+    }
+  }
+};
+
+export const startCampaignRunner = (params: {
+  store: TriviaRewardsStore;
+  directClient: any;
+}) => {
+  if (!isCampaignsEnabled()) {
+    elizaLogger.log("Trivia campaigns disabled (TRIVIA_CAMPAIGNS=false).");
+    return null;
+  }
+
+  return startIntervalLoop({
+    name: "Trivia campaign runner",
+    intervalMs:
+      Number(process.env.TRIVIA_CAMPAIGN_INTERVAL_MS) ||
+      CAMPAIGN_INTERVAL_MS_DEFAULT,
+    tick: () => runCampaignTick(params),
+  });
+};
@@ -1,4 +1,4 @@
-const getChronikUrl = () => {
+export const getChronikUrl = () => {
   const base = process.env.CHRONIK_URL || process.env.CHRONIK_HTTP_URL;
   if (!base) {
     throw new Error("CHRONIK_URL is not set.");
@@ -29,6 +29,54 @@ export const getBlockHeight = async () => {
   return height;
 };
 
+export type BlockInfo = {
+  hash: string;
+  height: number;
+  timestamp: number | null;
+};
+
+export const getBlockInfo = async (height: number): Promise<BlockInfo> => {
+  const data = await chronikFetch(`/block/${height}`);
+  const info = data?.blockInfo ?? data?.block_info ?? data;
+  const hash = info?.hash ?? info?.blockHash ?? info?.block_hash;
+  if (typeof hash !== "string" || !hash) {
+    throw new Error(`Chronik block ${height} missing hash.`);
+  }
+  const rawTimestamp = info?.timestamp ?? info?.time;
+  const timestamp =
+    rawTimestamp === undefined || rawTimestamp === null
+      ? null
+      : Number(rawTimestamp);
+  return {
+    hash,
+    height: typeof info?.height === "number" ? info.height : height,
+    timestamp: Number.isFinite(timestamp) ? timestamp : null,
+  };
+};
+
+export type TxStatus = {
+  txid: string;
+  blockHeight: number | null;
+  // Finalized by Avalanche; cannot be reorged or replaced anymore.
+  isFinal: boolean;
+};
+
+// Null when Chronik does not know the transaction (neither mempool nor chain).
+export const getTxStatus = async (txid: string): Promise<TxStatus | null> => {
+  const res = await fetch(`${getChronikUrl()}/tx/${txid}`);
+  if (res.status === 404) return null;
+  if (!res.ok) {
+    throw new Error(`Chronik request failed: ${res.status} ${res.statusText}`);
+  }
+  const data = await res.json();
+  const height = data?.block?.height ?? data?.blockHeight ?? data?.block_height;
+  return {
+    txid,
+    blockHeight: typeof height === "number" ? height : null,
+    isFinal: data?.isFinal === true || data?.is_final === true,
+  };
+};
+
 const tokenMatch = (token: any, tokenId: string) => {
   const id = token?.tokenId || token?.token_id || token?.tokenid;
   return typeof id === "string" && id.toLowerCase() === tokenId.toLowerCase();
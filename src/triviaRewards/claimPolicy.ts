@@ -0,0 +1,108 @@
+import type { TriviaRecord } from "../db/triviaRewards.ts";
+
+const CLAIM_TTL_MS_DEFAULT = 60 * 60 * 1000;
+const CLAIM_LOCK_MS_DEFAULT = 15 * 60 * 1000;
+const CLAIM_MAX_ATTEMPTS_DEFAULT = 3;
+const CLAIM_TTL_MINUTES_MAX = 30 * 24 * 60;
+const CLAIM_LOCK_MINUTES_MAX = 24 * 60;
+const CLAIM_MAX_ATTEMPTS_MAX = 20;
+const TOKEN_ID_PATTERN = /^[0-9a-f]{64}$/i;
+
+export type ClaimPolicy = {
+  claimTtlMs: number;
+  claimLockMs: number;
+  maxAttempts: number;
+  gatingTokenId: string | null;
+};
+
+const positiveEnv = (name: string, fallback: number) =>
+  Math.trunc(Number(process.env[name])) > 0
+    ? Math.trunc(Number(process.env[name]))
+    : fallback;
+
+// Env-level defaults, also used for claim codes that match no trivia.
+export const getDefaultClaimPolicy = (): ClaimPolicy => ({
+  claimTtlMs: positiveEnv("TRIVIA_CLAIM_TTL_MS", CLAIM_TTL_MS_DEFAULT),
+  claimLockMs: positiveEnv("TRIVIA_CLAIM_LOCK_MS", CLAIM_LOCK_MS_DEFAULT),
+  maxAttempts: positiveEnv(
+    "TRIVIA_CLAIM_MAX_ATTEMPTS",
+    CLAIM_MAX_ATTEMPTS_DEFAULT
+  ),
+  gatingTokenId: process.env.RMZSTATE_TOKEN_ID || null,
+});
+
+// The policy stored on the trivia row; rows created before per-trivia
+// policies fall back to the current defaults.
+export const resolveClaimPolicy = (trivia: TriviaRecord): ClaimPolicy => {
+  const defaults = getDefaultClaimPolicy();
+  return {
+    claimTtlMs: trivia.claim_ttl_ms ?? defaults.claimTtlMs,
+    claimLockMs: trivia.claim_lock_ms ?? defaults.claimLockMs,
+    maxAttempts: trivia.claim_max_attempts ?? defaults.maxAttempts,
+    gatingTokenId: trivia.gating_token_id ?? defaults.gatingTokenId,
+  };
+};
+
+const parseWholeNumber = (
+  value: unknown,
+  field: string,
+  max: number
+): { value: number | null; error?: string } => {
+  if (value === undefined || value === null) return { value: null };
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1 || parsed > max) {
+    return {
+      value: null,
+      error: `${field} must be a whole number between 1 and ${max}.`,
+    };
+  }
+  return { value: parsed };
+};
+
+// Reads claimTtlMinutes, claimLockMinutes, claimMaxAttempts and gatingTokenId
+// from a create request; missing fields take the env defaults.
+export const parseClaimPolicy = (
+  request: Record<string, any>
+): { policy: ClaimPolicy | null; error?: string } => {
+  const defaults = getDefaultClaimPolicy();
+  const ttl = parseWholeNumber(
+    request.claimTtlMinutes,
+    "claimTtlMinutes",
+    CLAIM_TTL_MINUTES_MAX
+  );
+  const lock = parseWholeNumber(
+    request.claimLockMinutes,
+    "claimLockMinutes",
+    CLAIM_LOCK_MINUTES_MAX
+  );
+  const attempts = parseWholeNumber(
+    request.claimMaxAttempts,
+    "claimMaxAttempts",
+    CLAIM_MAX_ATTEMPTS_MAX
+  );
+  const error = ttl.error ?? lock.error ?? attempts.error;
+  if (error) {
+    return { policy: null, error };
+  }
+  const { gatingTokenId } = request;
+  if (
+    gatingTokenId !== undefined &&
+    (typeof gatingTokenId !== "string" || !TOKEN_ID_PATTERN.test(gatingTokenId))
+  ) {
+    return {
+      policy: null,
+      error: "gatingTokenId must be a 64-character hex token id.",
+    };
+  }
+
+  return {
+    policy: {
+      claimTtlMs:
+        ttl.value !== null ? ttl.value * 60 * 1000 : defaults.claimTtlMs,
+      claimLockMs:
+        lock.value !== null ? lock.value * 60 * 1000 : defaults.claimLockMs,
+      maxAttempts: attempts.value ?? defaults.maxAttempts,
+      gatingTokenId: gatingTokenId?.toLowerCase() ?? defaults.gatingTokenId,
+    },
+  };
+};
@@ -0,0 +1,574 @@
+import crypto from "crypto";
+import { elizaLogger } from "@elizaos/core";
+import type {
+  TriviaRecord,
+  AnswerRules,
+  GradingMode,
+  TriviaReplyInsert,
+  TriviaRewardsStore,
+  TriviaWinnerInsert,
+} from "../db/triviaRewards.ts";
+import {
+  buildDrawSeed,
+  compareReplySpeed,
+  compareTweetIds,
+  computePrizeSplit,
+  computeSaltCommitment,
+  deterministicPickMany,
+  deterministicWeightedPickMany,
+  extractSearchNextToken,
+  extractSearchTweets,
+  normalizeAnswer,
+  parseTweetForReply,
+} from "./helpers.ts";
+import { getBlockHeight, getBlockInfo, type BlockInfo } from "./chronik.ts";
+import { getRmzTokenDecimals } from "./rmzSend.ts";
+import {
+  matchAnswer,
+  parseStoredAnswerRules,
+  stripMentionsAndUrls,
+} from "./answerMatching.ts";
+import { resolveClaimPolicy } from "./claimPolicy.ts";
+import { gradePendingReplies } from "./llmGrading.ts";
+import { snapshotTicketWeights, toTicketView } from "./weights.ts";
+import { announceTriviaWinners, type AnnounceReplyTarget } from "./announce.ts";
+
+const CLOSE_LOCK_MS = 5 * 60 * 1000;
+const REPLY_MAX_PAGES_DEFAULT = 20;
+const SEARCH_END_TIME_MARGIN_MS = 15 * 1000;
+
+export type CloseTriviaOutcome = {
+  status: number;
+  body: Record<string, any>;
+};
+
+const closeFailure = (status: number, error: string): CloseTriviaOutcome => ({
+  status,
+  body: { error },
+});
+
+export const getRuntime = (directClient: any, agentId?: string) => {
+  const agents: Map<string, any> | undefined =
+    directClient?.agents || directClient?.["agents"];
+  if (!agents) return null;
+  if (agentId && agents.has(agentId)) {
+    return agents.get(agentId);
+  }
+  if (agentId) {
+    for (const runtime of agents.values()) {
+      if (
+        runtime?.character?.name &&
+        runtime.character.name.toLowerCase() === agentId.toLowerCase()
+      ) {
+        return runtime;
+      }
+    }
+  }
+  return agents.values().next().value ?? null;
+};
+
+export const getTwitterManager = (runtime: any) => {
+  if (!runtime?.clients) return null;
+  return runtime.clients.find(
+    (client: any) => client?.client?.v2 && typeof client?.searchRecent === "function"
+  );
+};
+
+export const collectReplies = async (params: {
+  twitterManager: any;
+  tweetId: string;
+  triviaId: string;
+  correctAnswers: string[];
+  answerRules?: AnswerRules | null;
+  gradingMode?: GradingMode;
+  createdAt: number;
+  closesAt: number;
+  sinceId?: string | null;
+}) => {
+  const { twitterManager, tweetId, triviaId, correctAnswers, createdAt, closesAt } =
+    params;
+  const query = `conversation_id:${tweetId}`;
+  const maxPages =
+    Number(process.env.TRIVIA_REPLY_MAX_PAGES) || REPLY_MAX_PAGES_DEFAULT;
+  // Recent search rejects an end_time closer than ~10s to now.
+  const endTime = Math.min(closesAt, Date.now() - SEARCH_END_TIME_MARGIN_MS);
+  const rawTweets: any[] = [];
+  let nextToken: string | null = null;
+  let pages = 0;
+  do {
+    const searchResult = await twitterManager.searchRecent(query, 100, {
+      startTime: createdAt,
+      endTime: endTime > createdAt ? endTime : undefined,
+      nextToken: nextToken ?? undefined,
+      sinceId: params.sinceId ?? undefined,
+    });
+    rawTweets.push(...extractSearchTweets(searchResult));
+    nextToken = extractSearchNextToken(searchResult);
+    pages += 1;
+  } while (nextToken && pages < maxPages);
+
+  if (nextToken) {
+    elizaLogger.warn(
+      `Reply collection for ${triviaId} stopped at the ${maxPages} page ceiling; later replies were not fetched.`
+    );
+  }
+  elizaLogger.log(
+    `Reply collection for ${triviaId}: ${rawTweets.length} tweets across ${pages} page(s).`
+  );
+  const replies: TriviaReplyInsert[] = [];
+  let newestTweetId: string | null = null;
+
+  for (const raw of rawTweets) {
+    const parsed = parseTweetForReply(raw);
+    if (!parsed) continue;
+    if (!newestTweetId || compareTweetIds(parsed.id, newestTweetId) > 0) {
+      newestTweetId = parsed.id;
+    }
+    if (parsed.inReplyToStatusId && parsed.inReplyToStatusId !== tweetId) {
+      continue;
+    }
+    if (
+      parsed.createdAtMs &&
+      (parsed.createdAtMs < createdAt || parsed.createdAtMs > closesAt)
+    ) {
+      continue;
+    }
+
+    // LLM-graded replies are stored as pending and graded at close.
+    const isLlmGraded = params.gradingMode === "llm";
+    const { normalized, isCorrect } = isLlmGraded
+      ? {
+          normalized: normalizeAnswer(stripMentionsAndUrls(parsed.text)),
+          isCorrect: false,
+        }
+      : matchAnswer({
+          text: parsed.text,
+          correctAnswers,
+          rules: params.answerRules,
+        });
+    replies.push({
+      trivia_id: triviaId,
+      tweet_id: parsed.id,
+      twitter_user_id: parsed.twitterUserId,
+      twitter_username: parsed.twitterUsername,
+      reply_text: parsed.text,
+      normalized_text: normalized,
+      is_correct: isCorrect ? 1 : 0,
+      grading_source: isLlmGraded ? null : "rules",
+      created_at: parsed.createdAtMs ?? Date.now(),
+    });
+  }
+
+  // A truncated walk leaves a gap below the fetched pages, so the caller must
+  // not advance its since_id cursor past it.
+  return { replies, newestTweetId, truncated: Boolean(nextToken) };
+};
+
+// First correct reply per user; replies must be ordered by created_at.
+export const uniqueCorrectByUser = <T extends TriviaReplyInsert>(
+  replies: T[]
+) => {
+  const uniqueCorrect = new Map<string, T>();
+  for (const reply of replies) {
+    if (!reply.is_correct) continue;
+    if (!uniqueCorrect.has(reply.twitter_user_id)) {
+      uniqueCorrect.set(reply.twitter_user_id, reply);
+    }
+  }
+  return uniqueCorrect;
+};
+
+// The operator knows the salt, so a draw block mined before the window closed
+// would have let them compute the outcome while replies still came in. Such a
+// draw is refused; the trivia can only be cancelled.
+export const getEarlyDrawBlockError = (
+  trivia: TriviaRecord,
+  drawBlock: BlockInfo
+) =>
+  drawBlock.timestamp !== null && drawBlock.timestamp * 1000 < trivia.closes_at
+    ? `Draw block ${drawBlock.height} was mined before the window closed; cancel the trivia.`
+    : null;
+
+// Block and seed of the draw. The close preview calls this too so both pick
+// the same winners.
+export const resolveDraw = async (params: {
+  trivia: TriviaRecord;
+  participantIds: string[];
+}) => {
+  const { trivia, participantIds } = params;
+  if (trivia.selection_mode === "fastest") {
+    return { blockHeight: await getBlockHeight(), blockHash: null, seed: null };
+  }
+  if (!trivia.salt_commitment) {
+    return {
+      blockHeight: await getBlockHeight(),
+      blockHash: null,
+      seed: `${process.env.TRIVIA_SALT}:${trivia.trivia_id}:${trivia.tweet_id}:${participantIds.join(
+        ","
+      )}`,
+    };
+  }
+  const drawBlock = await getBlockInfo(trivia.draw_block_height);
+  const earlyError = getEarlyDrawBlockError(trivia, drawBlock);
+  if (earlyError) {
+    throw new Error(earlyError);
+  }
+  return {
+    blockHeight: drawBlock.height,
+    blockHash: drawBlock.hash,
+    seed: buildDrawSeed({
+      salt: trivia.salt,
+      triviaId: trivia.trivia_id,
+      tweetId: trivia.tweet_id,
+      blockHash: drawBlock.hash,
+      participantIds,
+    }),
+  };
+};
+
+// `uniqueCorrect` must be in speed order for fastest trivias; weighted
+// trivias pass one ticket weight per participant id.
+export const selectWinnerIds = (params: {
+  trivia: TriviaRecord;
+  uniqueCorrect: Map<string, TriviaReplyInsert>;
+  participantIds: string[];
+  seed: string | null;
+  weights?: number[];
+}) => {
+  const { trivia, uniqueCorrect, participantIds, seed } = params;
+  const winnerCount = Math.max(trivia.winner_count || 1, 1);
+  if (trivia.selection_mode === "fastest") {
+    return {
+      winnerIndexes: null,
+      winnerIds: Array.from(uniqueCorrect.keys()).slice(0, winnerCount),
+    };
+  }
+  const winnerIndexes =
+    trivia.selection_mode === "weighted"
+      ? deterministicWeightedPickMany(seed, params.weights, winnerCount)
+      : deterministicPickMany(seed, participantIds.length, winnerCount);
+  return {
+    winnerIndexes,
+    winnerIds: winnerIndexes.map((index) => participantIds[index]),
+  };
+};
+
+// Equal pools are split in token atoms, so only they need the decimals.
+export const computeTriviaRewards = async (
+  trivia: TriviaRecord,
+  winnerCount: number
+) => {
+  const mode = trivia.prize_mode || "fixed";
+  return computePrizeSplit({
+    mode,
+    winnerCount,
+    rewardRmz: trivia.reward_rmz,
+    tierRewards: trivia.tier_rewards
+      ? (JSON.parse(trivia.tier_rewards) as number[])
+      : null,
+    decimals:
+      mode === "equal" && winnerCount ? await getRmzTokenDecimals() : 0,
+  });
+};
+
+// Admins get `review_minutes` to override LLM verdicts before the draw.
+const getReviewEndsAt = (trivia: TriviaRecord, gradedAt: number) =>
+  gradedAt + (trivia.review_minutes || 0) * 60 * 1000;
+
+const awaitingReview = (
+  trivia: TriviaRecord,
+  gradedAt: number
+): CloseTriviaOutcome => ({
+  status: 202,
+  body: {
+    triviaId: trivia.trivia_id,
+    status: "awaiting_review",
+    gradedAt,
+    reviewEndsAt: getReviewEndsAt(trivia, gradedAt),
+  },
+});
+
+// Shared by POST /api/trivia/close and the auto-close scheduler. The close
+// lock keeps both paths from drawing the same trivia twice; a lock left behind
+// by a crashed process expires and the trivia is picked up again.
+export const closeTriviaRound = async (params: {
+  store: TriviaRewardsStore;
+  directClient: any;
+  trivia: TriviaRecord;
+  agentId?: string;
+  announce?: boolean;
+  announceReplyTo?: AnnounceReplyTarget;
+  skipReview?: boolean;
+}): Promise<CloseTriviaOutcome> => {
+  const { store, directClient, trivia } = params;
+  // The scheduler does not know which agent posted the trivia; the row does.
+  const agentId = params.agentId ?? trivia.agent_id ?? undefined;
+  if (trivia.status === "closed") {
+    return closeFailure(409, "Trivia already closed.");
+  }
+  if (trivia.status !== "open") {
+    return closeFailure(409, `Trivia is ${trivia.status}.`);
+  }
+  const now = Date.now();
+  if (now < trivia.closes_at) {
+    return closeFailure(400, "Trivia window still open.");
+  }
+  // Replies were collected and graded when the review started; nothing is
+  // fetched again until it ends.
+  if (
+    trivia.grading_mode === "llm" &&
+    trivia.graded_at !== null &&
+    !params.skipReview &&
+    now < getReviewEndsAt(trivia, trivia.graded_at)
+  ) {
+    return awaitingReview(trivia, trivia.graded_at);
+  }
+
+  const isFastest = trivia.selection_mode === "fastest";
+  // Trivias created before the commit/reveal scheme have no committed salt
+  // and keep drawing with the server-wide TRIVIA_SALT.
+  const isLegacyDraw = !isFastest && !trivia.salt_commitment;
+  const legacySalt = process.env.TRIVIA_SALT;
+  if (isLegacyDraw && !legacySalt) {
+    return closeFailure(500, "TRIVIA_SALT not configured.");
+  }
+  if (!isFastest && !isLegacyDraw) {
+    if (!trivia.salt || computeSaltCommitment(trivia.salt) !== trivia.salt_commitment) {
+      return closeFailure(500, "Trivia salt does not match its commitment.");
+    }
+    const tipHeight = await getBlockHeight();
+    if (tipHeight < trivia.draw_block_height) {
+      return closeFailure(
+        409,
+        `Draw block ${trivia.draw_block_height} not mined yet (tip ${tipHeight}).`
+      );
+    }
+    const earlyError = getEarlyDrawBlockError(
+      trivia,
+      await getBlockInfo(trivia.draw_block_height)
+    );
+    if (earlyError) {
+      elizaLogger.warn(`Trivia ${trivia.trivia_id} not drawn: ${earlyError}`);
+      return closeFailure(409, earlyError);
+    }
+  }
+  const runtime = getRuntime(directClient, agentId);
+  if (!runtime) {
+    return closeFailure(500, "Runtime not available.");
+  }
+  const twitterManager = getTwitterManager(runtime);
+  if (!twitterManager) {
+    return closeFailure(500, "Twitter client not available.");
+  }
+
+  const lockAcquired = store.acquireCloseLock({
+    triviaId: trivia.trivia_id,
+    lockExpiresAt: now + CLOSE_LOCK_MS,
+    now,
+  });
+  if (!lockAcquired) {
+    return closeFailure(409, "Trivia close already in progress.");
+  }
+
+  let closed = false;
+  try {
+    // Admin edits can only land before the lock; an extension that did
+    // (new window and draw block) means this close ran on a stale row.
+    const current = store.getTrivia(trivia.trivia_id) ?? trivia;
+    if (
+      current.closes_at !== trivia.closes_at ||
+      current.draw_block_height !== trivia.draw_block_height
+    ) {
+      return closeFailure(409, "Trivia was extended; close it again.");
+    }
+    const correctAnswers = JSON.parse(current.correct_answers) as string[];
+    const answerRules = parseStoredAnswerRules(current.answer_rules);
+    // Replies ingested by the poller while the window was open are already
+    // stored; only the gap since the last ingested reply is fetched here.
+    const { replies } = await collectReplies({
+      twitterManager,
+      tweetId: trivia.tweet_id,
+      triviaId: trivia.trivia_id,
+      correctAnswers,
+      answerRules,
+      gradingMode: trivia.grading_mode,
+      createdAt: trivia.created_at,
+      closesAt: trivia.closes_at,
+      sinceId: trivia.last_reply_id,
+    });
+    store.addReplies(replies);
+    // A poller tick that started before an answer edit may have stored
+    // replies graded against the old answers.
+    store.regradeRulesReplies(trivia.trivia_id, (text) =>
+      matchAnswer({ text, correctAnswers, rules: answerRules })
+    );
+
+    if (trivia.grading_mode === "llm") {
+      const { pending } = await gradePendingReplies({ store, runtime, trivia });
+      if (pending) {
+        return closeFailure(503, `${pending} replies could not be graded yet.`);
+      }
+      const gradedAt = trivia.graded_at ?? Date.now();
+      store.markTriviaGraded(trivia.trivia_id, gradedAt);
+      if (
+        !params.skipReview &&
+        Date.now() < getReviewEndsAt(trivia, gradedAt)
+      ) {
+        return awaitingReview(trivia, gradedAt);
+      }
+    }
+
+    const correctReplies = store.listCorrectReplies(trivia.trivia_id);
+    if (isFastest) {
+      correctReplies.sort(compareReplySpeed);
+    }
+    // Keyed by each user's first correct reply, in speed order when fastest.
+    const uniqueCorrect = uniqueCorrectByUser(correctReplies);
+
+    const participantIds = Array.from(uniqueCorrect.keys()).sort();
+    const { blockHeight, blockHash, seed } = await resolveDraw({
+      trivia,
+      participantIds,
+    });
+    const draw =
+      isFastest || isLegacyDraw
+        ? null
+        : {
+            saltCommitment: trivia.salt_commitment,
+            salt: trivia.salt,
+            blockHeight,
+            blockHash,
+          };
+
+    if (!participantIds.length) {
+      closed = store.closeTrivia({
+        triviaId: trivia.trivia_id,
+        blockHeight,
+        blockHash,
+        seed,
+        winners: [],
+        closedAt: Date.now(),
+      });
+      if (!closed) {
+        return closeFailure(409, "Trivia already closed.");
+      }
+      elizaLogger.log(`Trivia closed without winners: ${trivia.trivia_id}`);
+      return {
+        status: 200,
+        body: {
+          triviaId: trivia.trivia_id,
+          seed,
+          draw,
+          selectionMode: trivia.selection_mode,
+          status: "no_correct_answers",
+          winner: null,
+          winners: [],
+        },
+      };
+    }
+
+    // Balances are snapshotted once the draw block is known, so they cannot
+    // be topped up after the seed is public.
+    const tickets =
+      trivia.selection_mode === "weighted"
+        ? await snapshotTicketWeights({
+            trivia,
+            replies: store.listReplies(trivia.trivia_id),
+            participantIds,
+          })
+        : [];
+    const { winnerIndexes, winnerIds } = selectWinnerIds({
+      trivia,
+      uniqueCorrect,
+      participantIds,
+      seed,
+      weights: tickets.map((ticket) => ticket.weight),
+    });
+    const rewards = await computeTriviaRewards(trivia, winnerIds.length);
+    const claimExpiresAt = Date.now() + resolveClaimPolicy(trivia).claimTtlMs;
+    const winners: TriviaWinnerInsert[] = [];
+    for (const [position, winnerId] of winnerIds.entries()) {
+      const reply = uniqueCorrect.get(winnerId);
+      if (!reply) {
+        return closeFailure(500, "Failed to pick winner.");
+      }
+      winners.push({
+        rank: position + 1,
+        twitter_user_id: reply.twitter_user_id,
+        twitter_username: reply.twitter_username,
+        tweet_id: reply.tweet_id,
+        reward_rmz: rewards[position],
+        claim_code: crypto.randomBytes(16).toString("hex"),
+        claim_expires_at: claimExpiresAt,
+      });
+    }
+
+    closed = store.closeTrivia({
+      triviaId: trivia.trivia_id,
+      blockHeight,
+      blockHash,
+      seed,
+      winners,
+      tickets,
+      closedAt: Date.now(),
+    });
+    if (!closed) {
+      return closeFailure(409, "Trivia already closed.");
+    }
+
+    elizaLogger.log(
+      `Trivia closed: ${trivia.trivia_id} winners ${winners
+        .map((winner) => winner.twitter_user_id)
+        .join(",")}`
+    );
+
+    const shouldAnnounce =
+      params.announce ?? process.env.TRIVIA_ANNOUNCE_WINNERS === "true";
+    const announcementTweetId = shouldAnnounce
+      ? await announceTriviaWinners({
+          store,
+          runtime,
+          twitterManager,
+          trivia,
+          winners,
+          claimExpiresAt,
+          replyTo: params.announceReplyTo,
+        })
+      : null;
+
+    const winnerViews = winners.map((winner) => ({
+      rank: winner.rank,
+      twitterUserId: winner.twitter_user_id,
+      twitterUsername: winner.twitter_username,
+      tweetId: winner.tweet_id,
+      repliedAt: uniqueCorrect.get(winner.twitter_user_id)?.created_at ?? null,
+      rewardRmz: winner.reward_rmz,
+      claimCode: winner.claim_code,
+      claimExpiresAt: winner.claim_expires_at,
+    }));
+    return {
+      status: 200,
+      body: {
+        triviaId: trivia.trivia_id,
+        seed,
+        draw,
+        selectionMode: trivia.selection_mode,
+        winnerIndexes,
+        tickets: tickets.length ? tickets.map(toTicketView) : null,
+        winner: {
+          twitterUserId: winners[0].twitter_user_id,
+          twitterUsername: winners[0].twitter_username,
+          tweetId: winners[0].tweet_id,
+        },
+        claimCode: winners[0].claim_code,
+        claimExpiresAt,
+        winners: winnerViews,
+        announcementTweetId,
+      },
+    };
+  } finally {
+    if (!closed) {
+      store.releaseCloseLock(trivia.trivia_id);
+    }
+  }
+};
@@ -0,0 +1,411 @@
+import { elizaLogger } from "@elizaos/core";
+import type {
+  GradingMode,
+  PrizeMode,
+  SelectionMode,
+  TriviaLanguage,
+  TriviaQuestionRecord,
+  TriviaRewardsStore,
+} from "../db/triviaRewards.ts";
+import {
+  MAX_TOKEN_DECIMALS,
+  computeDrawBlockHeight,
+  computeSaltCommitment,
+  formatTriviaQuestionTweet,
+  generateTriviaSalt,
+  normalizeAnswer,
+  toTokenAtoms,
+  type TriviaQuestionTweet,
+} from "./helpers.ts";
+import { getBlockHeight } from "./chronik.ts";
+import { getRmzTokenDecimals } from "./rmzSend.ts";
+import {
+  getRuntime,
+  getTwitterManager,
+  type CloseTriviaOutcome,
+} from "./close.ts";
+import { parseAnswerRules } from "./answerMatching.ts";
+import { parseClaimPolicy } from "./claimPolicy.ts";
+import { getWeightUnitAtoms, parseWeightCap } from "./weights.ts";
+import { isQuestionDifficulty, normalizeCategory } from "./questionBank.ts";
+
+export const REWARD_RMZ_DEFAULT = 3;
+const TRIVIA_WINDOW_MINUTES_DEFAULT = 10;
+const TRIVIA_DRAW_BLOCK_OFFSET_DEFAULT = 2;
+const TRIVIA_LLM_REVIEW_MINUTES_DEFAULT = 10;
+const MAX_WINNERS_PER_TRIVIA = 20;
+
+export type CreateTriviaOutcome = CloseTriviaOutcome;
+
+const createFailure = (status: number, error: string): CreateTriviaOutcome => ({
+  status,
+  body: { error },
+});
+
+const PRIZE_MODES: PrizeMode[] = ["equal", "fixed", "tiered"];
+const SELECTION_MODES: SelectionMode[] = ["random", "weighted", "fastest"];
+
+export const getDrawBlockOffset = () =>
+  Number(process.env.TRIVIA_DRAW_BLOCK_OFFSET) ||
+  TRIVIA_DRAW_BLOCK_OFFSET_DEFAULT;
+
+export const isPrizeMode = (value: unknown): value is PrizeMode =>
+  PRIZE_MODES.includes(value as PrizeMode);
+
+// Rewards are in RMZ and may have as many decimals as the token. Without
+// `decimals` (campaign input, checked again on every run) the SLP maximum
+// applies.
+export const validatePrizeConfig = (params: {
+  winnerCount: number;
+  prizeMode: PrizeMode;
+  rewardRmz: number;
+  tierRewards: unknown;
+  decimals?: number;
+}) => {
+  const { winnerCount, prizeMode, rewardRmz, tierRewards } = params;
+  const decimals = params.decimals ?? MAX_TOKEN_DECIMALS;
+  const isPayable = (reward: number) =>
+    reward > 0 && toTokenAtoms(reward, decimals) !== null;
+  if (winnerCount < 1 || winnerCount > MAX_WINNERS_PER_TRIVIA) {
+    return `winnerCount must be between 1 and ${MAX_WINNERS_PER_TRIVIA}.`;
+  }
+  if (!isPrizeMode(prizeMode)) {
+    return "prizeMode must be equal, fixed or tiered.";
+  }
+  if (!isPayable(rewardRmz)) {
+    return `rewardRmz must be positive with at most ${decimals} decimals.`;
+  }
+  if (
+    prizeMode === "equal" &&
+    (toTokenAtoms(rewardRmz, decimals) ?? 0n) < BigInt(winnerCount)
+  ) {
+    return "Reward pool is too small to split between all winners.";
+  }
+  if (prizeMode === "tiered") {
+    if (!Array.isArray(tierRewards) || tierRewards.length < winnerCount) {
+      return "tierRewards must list one reward per winner.";
+    }
+    const invalidTier = tierRewards
+      .slice(0, winnerCount)
+      .some((reward) => !isPayable(Number(reward)));
+    if (invalidTier) {
+      return `tierRewards must be positive with at most ${decimals} decimals.`;
+    }
+  }
+  return null;
+};
+
+// Shared by POST /api/trivia/create and the campaign runner. `request` has
+// the shape of the create endpoint's JSON body.
+export const createTriviaRound = async (params: {
+  store: TriviaRewardsStore;
+  directClient: any;
+  request: Record<string, any>;
+  campaignId?: string | null;
+}): Promise<CreateTriviaOutcome> => {
+  const { store, directClient, request } = params;
+  const {
+    triviaId,
+    tweetId,
+    question,
+    questionId,
+    category,
+    difficulty,
+    answerRules,
+    windowMinutes,
+    rewardRmz,
+    winnerCount,
+    prizeMode,
+    tierRewards,
+    selectionMode,
+    gradingMode,
+    rubric,
+    reviewMinutes,
+    agentId,
+  } = request;
+
+  // Questions can also come from the bank: by id, or the oldest unused
+  // question of a category. Fields sent in the body take precedence.
+  let bankQuestion: TriviaQuestionRecord | undefined;
+  if (questionId !== undefined || category !== undefined) {
+    if (question !== undefined) {
+      return createFailure(
+        400,
+        "Send either question or a bank question, not both."
+      );
+    }
+    bankQuestion =
+      questionId !== undefined
+        ? store.getQuestion(Number(questionId))
+        : store.pickUnusedQuestion({
+            category: normalizeCategory(category),
+            difficulty: isQuestionDifficulty(difficulty)
+              ? difficulty
+              : undefined,
+            language:
+              request.language === "es" || request.language === "en"
+                ? request.language
+                : undefined,
+          });
+    if (!bankQuestion) {
+      return createFailure(404, "No matching unused question in the bank.");
+    }
+  }
+  const {
+    answerHint = bankQuestion?.answer_hint,
+    answerFormat = bankQuestion?.answer_format,
+    correctAnswers = bankQuestion
+      ? (JSON.parse(bankQuestion.correct_answers) as string[])
+      : undefined,
+    language = bankQuestion?.language,
+  } = request;
+  const questionText =
+    bankQuestion?.question_text ??
+    (typeof question === "string" ? question.trim() : "");
+  const gradingModeFinal: GradingMode = gradingMode ?? "rules";
+  if (gradingModeFinal !== "rules" && gradingModeFinal !== "llm") {
+    return createFailure(400, "gradingMode must be rules or llm.");
+  }
+  const isLlmGraded = gradingModeFinal === "llm";
+  const rubricText = typeof rubric === "string" ? rubric.trim() : "";
+
+  // With LLM grading the rubric is what decides; answers are only hints.
+  const answersProvided = isLlmGraded
+    ? Array.isArray(correctAnswers) || correctAnswers === undefined
+    : Array.isArray(correctAnswers);
+  if (!triviaId || (!tweetId && !questionText) || !answersProvided) {
+    return createFailure(
+      400,
+      "Missing triviaId, tweetId or question, or answers."
+    );
+  }
+  if (isLlmGraded && !rubricText) {
+    return createFailure(400, "LLM grading requires a rubric.");
+  }
+
+  const normalizedAnswers = (correctAnswers ?? [])
+    .map((answer: string) => normalizeAnswer(answer))
+    .filter(Boolean);
+  if (!normalizedAnswers.length && !isLlmGraded) {
+    return createFailure(400, "No valid answers provided.");
+  }
+
+  const parsedRules = parseAnswerRules(answerRules);
+  if (parsedRules.error) {
+    return createFailure(400, parsedRules.error);
+  }
+  const { policy: claimPolicy, error: claimPolicyError } =
+    parseClaimPolicy(request);
+  if (!claimPolicy) {
+    return createFailure(400, claimPolicyError);
+  }
+
+  const existing = store.getTrivia(triviaId);
+  if (existing) {
+    return createFailure(409, "Trivia already exists.");
+  }
+
+  const windowMinutesFinal =
+    Number(windowMinutes) || TRIVIA_WINDOW_MINUTES_DEFAULT;
+  const reviewMinutesFinal = isLlmGraded
+    ? Math.max(
+        Math.trunc(
+          Number(
+            reviewMinutes ??
+              process.env.TRIVIA_LLM_REVIEW_MINUTES ??
+              TRIVIA_LLM_REVIEW_MINUTES_DEFAULT
+          )
+        ) || 0,
+        0
+      )
+    : 0;
+  const rewardFinal = Number(rewardRmz) || REWARD_RMZ_DEFAULT;
+  const winnerCountFinal = Math.trunc(Number(winnerCount)) || 1;
+  const prizeModeFinal: PrizeMode = prizeMode ?? "fixed";
+  const prizeError = validatePrizeConfig({
+    winnerCount: winnerCountFinal,
+    prizeMode: prizeModeFinal,
+    rewardRmz: rewardFinal,
+    tierRewards,
+    decimals: await getRmzTokenDecimals(),
+  });
+  if (prizeError) {
+    return createFailure(400, prizeError);
+  }
+  const tierRewardsFinal =
+    prizeModeFinal === "tiered"
+      ? (tierRewards as unknown[]).map((reward) => Number(reward))
+      : null;
+  const selectionModeFinal: SelectionMode = selectionMode ?? "random";
+  if (!SELECTION_MODES.includes(selectionModeFinal)) {
+    return createFailure(
+      400,
+      "selectionMode must be random, weighted or fastest."
+    );
+  }
+  const isFastest = selectionModeFinal === "fastest";
+  const isWeighted = selectionModeFinal === "weighted";
+  // Tickets are counted in the gating token, so a weighted draw needs one.
+  const { weightCap, error: weightCapError } = isWeighted
+    ? parseWeightCap(request.weightCap)
+    : { weightCap: null, error: undefined };
+  if (weightCapError) {
+    return createFailure(400, weightCapError);
+  }
+  if (isWeighted && !claimPolicy.gatingTokenId) {
+    return createFailure(
+      400,
+      "Weighted draws need a gatingTokenId or RMZSTATE_TOKEN_ID."
+    );
+  }
+  const weightUnitAtoms = isWeighted ? getWeightUnitAtoms() : null;
+
+  // Commit to the draw before the question goes out: the salt stays
+  // secret until close and the block at drawBlockHeight does not exist yet.
+  // Speed contests have nothing to draw, so they skip the commitment.
+  // The review period counts as window so overrides land before the block.
+  const salt = isFastest ? null : generateTriviaSalt();
+  const saltCommitment = salt ? computeSaltCommitment(salt) : null;
+  const drawBlockHeight = isFastest
+    ? null
+    : computeDrawBlockHeight({
+        currentHeight: await getBlockHeight(),
+        windowMinutes: windowMinutesFinal + reviewMinutesFinal,
+        offsetBlocks: getDrawBlockOffset(),
+      });
+
+  const languageFinal: TriviaLanguage = language === "en" ? "en" : "es";
+  const triviaInput = {
+    triviaId,
+    questionText: questionText || null,
+    correctAnswers: normalizedAnswers,
+    answerRules: parsedRules.rules,
+    questionId: bankQuestion?.id ?? null,
+    gradingMode: gradingModeFinal,
+    gradingRubric: rubricText || null,
+    reviewMinutes: reviewMinutesFinal,
+    windowMinutes: windowMinutesFinal,
+    rewardRmz: rewardFinal,
+    winnerCount: winnerCountFinal,
+    prizeMode: prizeModeFinal,
+    tierRewards: tierRewardsFinal,
+    selectionMode: selectionModeFinal,
+    weightCap,
+    weightUnitAtoms,
+    claimTtlMs: claimPolicy.claimTtlMs,
+    claimLockMs: claimPolicy.claimLockMs,
+    claimMaxAttempts: claimPolicy.maxAttempts,
+    gatingTokenId: claimPolicy.gatingTokenId,
+    language: languageFinal,
+    agentId: typeof agentId === "string" && agentId ? agentId : null,
+    campaignId: params.campaignId ?? null,
+    salt,
+    saltCommitment,
+    drawBlockHeight,
+  };
+  let createdAt = Date.now();
+  let closesAt = createdAt + windowMinutesFinal * 60 * 1000;
+
+  // An explicit tweetId keeps the original flow for questions that were
+  // posted by hand; otherwise the question is published from here. The row
+  // is reserved before tweeting, so a retry after a crash in between hits
+  // "Trivia already exists" instead of posting the question twice.
+  let questionTweetId = tweetId ? String(tweetId) : "";
+  let tweetOmitted: TriviaQuestionTweet["omitted"] = [];
+  if (questionTweetId) {
+    store.createTrivia({
+      ...triviaInput,
+      tweetId: questionTweetId,
+      createdAt,
+      closesAt,
+    });
+  } else {
+    const runtime = getRuntime(directClient, agentId);
+    const twitterManager = getTwitterManager(runtime);
+    if (!twitterManager || typeof twitterManager.tweet !== "function") {
+      return createFailure(500, "Twitter client not available.");
+    }
+    const questionTweet = formatTriviaQuestionTweet({
+      question: questionText,
+      answerHint,
+      answerFormat,
+      windowMinutes: windowMinutesFinal,
+      drawCommitment: isFastest
+        ? null
+        : { blockHeight: drawBlockHeight, saltCommitment },
+      fastestWinners: isFastest ? winnerCountFinal : null,
+      weightedTickets: isWeighted,
+    });
+    if (!questionTweet) {
+      return createFailure(
+        400,
+        "Question is too long to tweet with the draw commitment."
+      );
+    }
+    tweetOmitted = questionTweet.omitted;
+    if (tweetOmitted.length) {
+      elizaLogger.warn(
+        `Trivia ${triviaId} tweet leaves out ${tweetOmitted.join(", ")} to fit the draw commitment.`
+      );
+    }
+    store.createTrivia({
+      ...triviaInput,
+      tweetId: "",
+      createdAt,
+      closesAt,
+      status: "posting",
+    });
+    let posted: any;
+    try {
+      posted = await twitterManager.tweet(questionTweet.text);
+    } catch (error) {
+      store.deleteReservedTrivia(triviaId);
+      throw error;
+    }
+    questionTweetId = posted?.data?.id ?? "";
+    if (!questionTweetId) {
+      store.deleteReservedTrivia(triviaId);
+      return createFailure(502, "Failed to publish trivia tweet.");
+    }
+    createdAt = Date.now();
+    closesAt = createdAt + windowMinutesFinal * 60 * 1000;
+    store.activateTrivia({
+      triviaId,
+      tweetId: questionTweetId,
+      createdAt,
+      closesAt,
+    });
+    elizaLogger.log(`Trivia question posted: ${triviaId} tweet ${questionTweetId}`);
+  }
+
+  if (bankQuestion) {
+    store.markQuestionUsed(bankQuestion.id, createdAt);
+  }
+
+  elizaLogger.log(`Trivia created: ${triviaId} for tweet ${questionTweetId}`);
+  return {
+    status: 200,
+    body: {
+      triviaId,
+      tweetId: questionTweetId,
+      question: questionText || null,
+      questionId: bankQuestion?.id ?? null,
+      answerRules: parsedRules.rules,
+      gradingMode: gradingModeFinal,
+      reviewMinutes: reviewMinutesFinal,
+      windowMinutes: windowMinutesFinal,
+      rewardRmz: rewardFinal,
+      winnerCount: winnerCountFinal,
+      prizeMode: prizeModeFinal,
+      tierRewards: tierRewardsFinal,
+      selectionMode: selectionModeFinal,
+      weightCap,
+      weightUnitAtoms,
+      claimPolicy,
+      closesAt,
+      saltCommitment,
+      drawBlockHeight,
+      tweetOmitted,
+    },
+  };
+};
@@ -0,0 +1,150 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  computePrizeSplit,
+  formatTriviaQuestionTweet,
+  fromTokenAtoms,
+  toTokenAtoms,
+} from "./helpers.ts";
+
+describe("toTokenAtoms", () => {
+  test("scales display amounts by the token decimals", () => {
+    assert.equal(toTokenAtoms(1.5, 2), 150n);
+    assert.equal(toTokenAtoms(0.29, 2), 29n);
+    assert.equal(toTokenAtoms(0.1, 9), 100000000n);
+    assert.equal(toTokenAtoms(12, 0), 12n);
+    assert.equal(toTokenAtoms(0, 4), 0n);
+  });
+
+  test("stays exact past 2^53 atoms", () => {
+    assert.equal(toTokenAtoms(123456789.123456789, 9), 123456789123456790n);
+    assert.equal(toTokenAtoms(1e21, 9), 10n ** 30n);
+    assert.equal(
+      toTokenAtoms(Number.MAX_SAFE_INTEGER, 2),
+      BigInt(Number.MAX_SAFE_INTEGER) * 100n
+    );
+  });
+
+  test("reads exponent notation", () => {
+    assert.equal(toTokenAtoms(1e-7, 9), 100n);
+    assert.equal(toTokenAtoms(1.5e-7, 9), 150n);
+    assert.equal(toTokenAtoms(1e-7, 6), null);
+  });
+
+  test("rejects extra decimals and invalid amounts", () => {
+    assert.equal(toTokenAtoms(1.005, 2), null);
+    assert.equal(toTokenAtoms(0.5, 0), null);
+    assert.equal(toTokenAtoms(-1, 2), null);
+    assert.equal(toTokenAtoms(Number.NaN, 2), null);
+    assert.equal(toTokenAtoms(Number.POSITIVE_INFINITY, 2), null);
+  });
+
+  test("round-trips with fromTokenAtoms", () => {
+    assert.equal(toTokenAtoms(fromTokenAtoms(333n, 2), 2), 333n);
+    assert.equal(toTokenAtoms(fromTokenAtoms(1n, 9), 9), 1n);
+  });
+});
+
+describe("computePrizeSplit", () => {
+  test("equal mode splits the pool in atoms, remainder to the top ranks", () => {
+    assert.deepEqual(
+      computePrizeSplit({
+        mode: "equal",
+        winnerCount: 3,
+        rewardRmz: 10,
+        decimals: 2,
+      }),
+      [3.34, 3.33, 3.33]
+    );
+  });
+
+  test("equal mode rejects a pool finer than the token", () => {
+    assert.throws(() =>
+      computePrizeSplit({
+        mode: "equal",
+        winnerCount: 2,
+        rewardRmz: 0.001,
+        decimals: 2,
+      })
+    );
+  });
+
+  test("fixed and tiered modes", () => {
+    assert.deepEqual(
+      computePrizeSplit({ mode: "fixed", winnerCount: 2, rewardRmz: 5 }),
+      [5, 5]
+    );
+    assert.deepEqual(
+      computePrizeSplit({
+        mode: "tiered",
+        winnerCount: 3,
+        rewardRmz: 0,
+        tierRewards: [10, 5],
+      }),
+      [10, 5, 0]
+    );
+  });
+});
+
+describe("formatTriviaQuestionTweet", () => {
+  const drawCommitment = {
+    blockHeight: 900000,
+    saltCommitment: "a".repeat(64),
+  };
+
+  test("keeps every line when the commitment fits", () => {
+    const tweet = formatTriviaQuestionTweet({
+      question: "¿En qué año se fundó Tenochtitlan?",
+      answerHint: "siglo XIV",
+      answerFormat: "un número",
+      windowMinutes: 10,
+      drawCommitment,
+    });
+    assert.deepEqual(tweet?.omitted, []);
+    assert.match(tweet?.text ?? "", /Pista: siglo XIV/);
+    assert.match(tweet?.text ?? "", /bloque eCash #900000/);
+  });
+
+  test("drops the hint, then the format, to fit the commitment", () => {
+    const params = {
+      question: "q".repeat(80),
+      answerHint: "h".repeat(40),
+      answerFormat: "f".repeat(10),
+      windowMinutes: 10,
+      drawCommitment,
+    };
+    const withoutHint = formatTriviaQuestionTweet(params);
+    assert.deepEqual(withoutHint?.omitted, ["answerHint"]);
+    assert.match(withoutHint?.text ?? "", /Formato de respuesta/);
+    assert.ok((withoutHint?.text.length ?? 0) <= 280);
+
+    const withoutBoth = formatTriviaQuestionTweet({
+      ...params,
+      answerFormat: "f".repeat(60),
+    });
+    assert.deepEqual(withoutBoth?.omitted, ["answerHint", "answerFormat"]);
+    assert.match(withoutBoth?.text ?? "", /commit sha256/);
+  });
+
+  test("returns null when the commitment cannot fit", () => {
+    assert.equal(
+      formatTriviaQuestionTweet({
+        question: "q".repeat(200),
+        windowMinutes: 10,
+        drawCommitment,
+      }),
+      null
+    );
+  });
+
+  test("never drops lines without a commitment", () => {
+    const tweet = formatTriviaQuestionTweet({
+      question: "q".repeat(260),
+      answerHint: "pista",
+      windowMinutes: 5,
+      fastestWinners: 1,
+    });
+    assert.deepEqual(tweet?.omitted, []);
+    assert.match(tweet?.text ?? "", /Gana la primera respuesta correcta/);
+  });
+});
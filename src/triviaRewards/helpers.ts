@@ -1,15 +1,122 @@
 import crypto from "crypto";
 
+// Drops Latin accents but keeps letters, marks and digits from any script, so
+// answers in Japanese, Arabic or Nahuatl orthographies survive normalization.
 export const normalizeAnswer = (answer: string) => {
   return answer
     .toLowerCase()
     .normalize("NFKD")
     .replace(/[\u0300-\u036f]/g, "")
-    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/[^\p{L}\p{M}\p{N}\s]/gu, " ")
     .replace(/\s+/g, " ")
     .trim();
 };
 
+const TWEET_MAX_LENGTH = 280;
+
+export const ECASH_ADDRESS_REGEX = /\becash:[02-9ac-hj-np-z]{42}\b/gi;
+
+export type TriviaQuestionTweet = {
+  text: string;
+  // Optional lines left out so the draw commitment fits.
+  omitted: Array<"answerHint" | "answerFormat">;
+};
+
+// The draw commitment has to be public before the draw block exists, so the
+// hint and then the answer format give way to it. Returns null when even the
+// shortest tweet cannot carry it.
+export const formatTriviaQuestionTweet = (params: {
+  question: string;
+  answerHint?: string | null;
+  answerFormat?: string | null;
+  windowMinutes: number;
+  drawCommitment?: { blockHeight: number; saltCommitment: string } | null;
+  fastestWinners?: number | null;
+  weightedTickets?: boolean;
+}): TriviaQuestionTweet | null => {
+  const hint =
+    typeof params.answerHint === "string" ? params.answerHint.trim() : "";
+  const format =
+    typeof params.answerFormat === "string" ? params.answerFormat.trim() : "";
+  const build = (withHint: boolean, withFormat: boolean) => {
+    const lines = [params.question.trim()];
+    const extras: string[] = [];
+    if (withHint && hint) {
+      extras.push(`Pista: ${hint}`);
+    }
+    if (withFormat && format) {
+      extras.push(`Formato de respuesta: ${format}`);
+    }
+    extras.push(
+      `Responde a este tweet en los próximos ${params.windowMinutes} minutos.`
+    );
+    if (params.fastestWinners) {
+      extras.push(
+        params.fastestWinners === 1
+          ? "Gana la primera respuesta correcta."
+          : `Ganan las primeras ${params.fastestWinners} respuestas correctas.`
+      );
+    }
+    if (params.weightedTickets) {
+      extras.push(
+        "Incluye tu dirección eCash: más RMZState, más boletos (cobras en esa dirección)."
+      );
+    }
+    lines.push("", ...extras);
+    const text = lines.join("\n");
+    if (!params.drawCommitment) return text;
+    return `${text}\n\nSorteo: bloque eCash #${params.drawCommitment.blockHeight}, commit sha256 ${params.drawCommitment.saltCommitment}`;
+  };
+  if (!params.drawCommitment) {
+    return { text: build(true, true), omitted: [] };
+  }
+  const options: TriviaQuestionTweet[] = [
+    { text: build(true, true), omitted: [] },
+    { text: build(false, true), omitted: hint ? ["answerHint"] : [] },
+    {
+      text: build(false, false),
+      omitted: [
+        ...(hint ? (["answerHint"] as const) : []),
+        ...(format ? (["answerFormat"] as const) : []),
+      ],
+    },
+  ];
+  return (
+    options.find((option) => option.text.length <= TWEET_MAX_LENGTH) ?? null
+  );
+};
+
+export const generateTriviaSalt = () => crypto.randomBytes(32).toString("hex");
+
+export const computeSaltCommitment = (salt: string) =>
+  crypto.createHash("sha256").update(salt).digest("hex");
+
+// eCash targets one block every 10 minutes; the offset keeps a margin so the
+// draw block is normally mined after the answer window has closed.
+export const computeDrawBlockHeight = (params: {
+  currentHeight: number;
+  windowMinutes: number;
+  offsetBlocks: number;
+}) =>
+  params.currentHeight +
+  Math.ceil(params.windowMinutes / 10) +
+  Math.max(params.offsetBlocks, 1);
+
+export const buildDrawSeed = (params: {
+  salt: string;
+  triviaId: string;
+  tweetId: string;
+  blockHash: string;
+  participantIds: string[];
+}) =>
+  [
+    params.salt,
+    params.triviaId,
+    params.tweetId,
+    params.blockHash,
+    params.participantIds.join(","),
+  ].join(":");
+
 export const deterministicPick = (seed: string, count: number) => {
   if (count <= 0) {
     return -1;
@@ -19,6 +126,148 @@ export const deterministicPick = (seed: string, count: number) => {
   return Number(value % BigInt(count));
 };
 
+// Tweet ids are snowflakes: numeric order matches creation order.
+export const compareTweetIds = (a: string, b: string) => {
+  const left = BigInt(a);
+  const right = BigInt(b);
+  if (left === right) return 0;
+  return left > right ? 1 : -1;
+};
+
+// X `created_at` only has second precision; the tweet id breaks ties.
+export const compareReplySpeed = (
+  a: { created_at: number; tweet_id: string },
+  b: { created_at: number; tweet_id: string }
+) => a.created_at - b.created_at || compareTweetIds(a.tweet_id, b.tweet_id);
+
+// Picks `picks` distinct indexes out of `count`. The first pick uses the seed
+// as-is so a single-winner draw matches deterministicPick; each later pick
+// hashes `seed:round` over the participants that are left.
+export const deterministicPickMany = (
+  seed: string,
+  count: number,
+  picks: number
+) => {
+  const remaining = Array.from({ length: Math.max(count, 0) }, (_, i) => i);
+  const picked: number[] = [];
+  for (let round = 0; round < picks && remaining.length; round += 1) {
+    const roundSeed = round === 0 ? seed : `${seed}:${round}`;
+    const index = deterministicPick(roundSeed, remaining.length);
+    picked.push(remaining.splice(index, 1)[0]);
+  }
+  return picked;
+};
+
+// Weighted variant of deterministicPickMany: participant i holds weights[i]
+// tickets and each round's hash picks one ticket out of those still in play.
+// With every weight at 1 it returns the same indexes as the unweighted draw.
+export const deterministicWeightedPickMany = (
+  seed: string,
+  weights: number[],
+  picks: number
+) => {
+  const remaining = weights.map((weight, index) => ({ index, weight }));
+  const picked: number[] = [];
+  for (let round = 0; round < picks && remaining.length; round += 1) {
+    const roundSeed = round === 0 ? seed : `${seed}:${round}`;
+    const total = remaining.reduce((sum, entry) => sum + entry.weight, 0);
+    let ticket = deterministicPick(roundSeed, total);
+    if (ticket < 0) break;
+    let position = 0;
+    while (ticket >= remaining[position].weight) {
+      ticket -= remaining[position].weight;
+      position += 1;
+    }
+    picked.push(remaining.splice(position, 1)[0].index);
+  }
+  return picked;
+};
+
+// Cumulative [start, end) ticket ranges for the first round of a weighted
+// draw, in participant order.
+export const buildTicketRanges = (weights: number[]) => {
+  let start = 0;
+  return weights.map((weight) => {
+    const range = { rangeStart: start, rangeEnd: start + weight };
+    start += weight;
+    return range;
+  });
+};
+
+// SLP genesis allows at most 9 decimals.
+export const MAX_TOKEN_DECIMALS = 9;
+
+// Rewards are kept in display units (1.5 RMZ) and only turned into base
+// atoms for the transaction. The conversion works on the decimal digits of
+// `amount` (the shortest ones that read back as the same number), so it stays
+// exact past 2^53 atoms. Returns null when `amount` is negative or has more
+// decimals than the token.
+export const toTokenAtoms = (amount: number, decimals: number) => {
+  if (!Number.isFinite(amount) || amount < 0) {
+    return null;
+  }
+  const [mantissa, exponent = "0"] = String(amount).split("e");
+  const [whole, fraction = ""] = mantissa.split(".");
+  const digits = `${whole}${fraction}`;
+  const shift = Number(exponent) - fraction.length + decimals;
+  if (shift >= 0) {
+    return BigInt(digits) * 10n ** BigInt(shift);
+  }
+  const kept = Math.max(digits.length + shift, 0);
+  if (/[^0]/.test(digits.slice(kept))) {
+    return null;
+  }
+  return BigInt(digits.slice(0, kept) || "0");
+};
+
+export const fromTokenAtoms = (atoms: bigint, decimals: number) =>
+  Number(atoms) / 10 ** decimals;
+
+// Sums of display amounts pick up float noise, so caps are compared at the
+// finest precision a token can have.
+export const exceedsTokenAmount = (amount: number, limit: number) =>
+  Math.round(amount * 10 ** MAX_TOKEN_DECIMALS) >
+  Math.round(limit * 10 ** MAX_TOKEN_DECIMALS);
+
+export type PrizeSplitMode = "equal" | "fixed" | "tiered";
+
+// Rewards per rank, in RMZ. `equal` splits `rewardRmz` as a pool in token
+// atoms (`decimals` from the token genesis) and hands the remainder to the
+// top ranks; `fixed` pays `rewardRmz` to each winner; `tiered` reads one
+// reward per rank from `tierRewards`.
+export const computePrizeSplit = (params: {
+  mode: PrizeSplitMode;
+  winnerCount: number;
+  rewardRmz: number;
+  tierRewards?: number[] | null;
+  decimals?: number;
+}) => {
+  const { mode, winnerCount, rewardRmz } = params;
+  if (mode === "tiered") {
+    return Array.from(
+      { length: winnerCount },
+      (_, i) => params.tierRewards?.[i] ?? 0
+    );
+  }
+  if (mode === "equal") {
+    if (!winnerCount) return [];
+    const decimals = params.decimals ?? 0;
+    const pool = toTokenAtoms(rewardRmz, decimals);
+    if (pool === null) {
+      throw new Error(
+        `Reward pool ${rewardRmz} has more than ${decimals} decimals.`
+      );
+    }
+    const count = BigInt(winnerCount);
+    const base = pool / count;
+    const remainder = pool - base * count;
+    return Array.from({ length: winnerCount }, (_, i) =>
+      fromTokenAtoms(BigInt(i) < remainder ? base + 1n : base, decimals)
+    );
+  }
+  return Array.from({ length: winnerCount }, () => rewardRmz);
+};
+
 export const toDayKey = (timestampMs: number) => {
   const date = new Date(timestampMs);
   const year = date.getUTCFullYear();
@@ -45,6 +294,40 @@ const pickFirstString = (...values: Array<string | undefined | null>) => {
   return "";
 };
 
+// Accepts both a twitter-api-v2 paginator and a raw v2 search payload, and
+// copies the author's username from `includes.users` onto each tweet.
+export const extractSearchTweets = (searchResult: any): any[] => {
+  if (!searchResult) return [];
+  const tweets = Array.isArray(searchResult.tweets)
+    ? searchResult.tweets
+    : Array.isArray(searchResult.data)
+      ? searchResult.data
+      : Array.isArray(searchResult.data?.data)
+        ? searchResult.data.data
+        : [];
+  const users =
+    searchResult.includes?.users ?? searchResult.data?.includes?.users ?? [];
+  const usernames = new Map<string, string>();
+  if (Array.isArray(users)) {
+    for (const user of users) {
+      if (user?.id && user?.username) {
+        usernames.set(user.id, user.username);
+      }
+    }
+  }
+  return tweets.map((tweet: any) =>
+    tweet?.author_id && !tweet.username && usernames.has(tweet.author_id)
+      ? { ...tweet, username: usernames.get(tweet.author_id) }
+      : tweet
+  );
+};
+
+export const extractSearchNextToken = (searchResult: any): string | null => {
+  const token =
+    searchResult?.meta?.next_token ?? searchResult?.data?.meta?.next_token;
+  return typeof token === "string" && token ? token : null;
+};
+
 export const parseTweetForReply = (raw: any): ParsedTweet | null => {
   if (!raw || typeof raw !== "object") return null;
 
@@ -0,0 +1,235 @@
+import { ChronikClient } from "chronik-client";
+import { elizaLogger } from "@elizaos/core";
+import type {
+  PayoutJobRecord,
+  TriviaRewardsStore,
+} from "../db/triviaRewards.ts";
+import { getChronikUrl, getTxStatus } from "./chronik.ts";
+import { getDefaultClaimPolicy, resolveClaimPolicy } from "./claimPolicy.ts";
+import { broadcastRmzTx, findMinedConflict } from "./rmzSend.ts";
+import { startIntervalLoop } from "./scheduler.ts";
+
+const WATCH_INTERVAL_MS_DEFAULT = 30 * 1000;
+const DROP_TIMEOUT_MS_DEFAULT = 30 * 60 * 1000;
+
+const isWebsocketEnabled = () => process.env.TRIVIA_PAYOUT_WS !== "false";
+
+const getDropTimeoutMs = () =>
+  Number(process.env.TRIVIA_PAYOUT_DROP_TIMEOUT_MS) || DROP_TIMEOUT_MS_DEFAULT;
+
+const isPastDropTimeout = (job: PayoutJobRecord, now: number) =>
+  now - (job.broadcast_at ?? job.updated_at) >= getDropTimeoutMs();
+
+// The claim gets at least a full window again, as it may have expired while
+// the payout was in flight.
+const getReopenedClaimExpiry = (
+  store: TriviaRewardsStore,
+  job: PayoutJobRecord,
+  now: number
+) => {
+  const trivia = store.getTrivia(job.trivia_id);
+  const { claimTtlMs } = trivia
+    ? resolveClaimPolicy(trivia)
+    : getDefaultClaimPolicy();
+  return now + claimTtlMs;
+};
+
+// An unmined tx Chronik does not know is rebroadcast; past the drop timeout
+// it is dropped only if a mined transaction spent its inputs, since until
+// then the same bytes can still confirm.
+const handleUnknownTx = async (
+  store: TriviaRewardsStore,
+  job: PayoutJobRecord,
+  now: number
+) => {
+  if (isPastDropTimeout(job, now)) {
+    const conflict = await findMinedConflict(job.raw_tx, job.txid);
+    if (conflict) {
+      const dropped = store.markPayoutJobDropped({
+        jobId: job.job_id,
+        error: `Inputs spent by ${conflict}; the claim can be paid again.`,
+        claimExpiresAt: getReopenedClaimExpiry(store, job, now),
+        now,
+      });
+      if (dropped) {
+        elizaLogger.error(
+          `Payout dropped: ${job.job_id} (${job.trivia_id}) txid ${job.txid}, inputs spent by ${conflict}`
+        );
+      }
+      return;
+    }
+  }
+  // Evicted or lost in a node restart: resending the same bytes is safe.
+  await broadcastRmzTx(job.raw_tx).catch((error) => {
+    const message = error instanceof Error ? error.message : String(error);
+    elizaLogger.warn(`Payout rebroadcast failed: ${job.job_id} ${message}`);
+  });
+  store.markPayoutJobChecked(job.job_id, now);
+};
+
+// Reads the tx from Chronik and moves the job to confirmed, finalized or
+// dropped, or back to broadcast when a reorg took it out of its block.
+// Updates are conditional on the current status, so overlapping checks from
+// the websocket and the poll are harmless.
+export const checkPayoutTx = async (
+  store: TriviaRewardsStore,
+  job: PayoutJobRecord
+) => {
+  const now = Date.now();
+  const status = await getTxStatus(job.txid);
+  if (status?.isFinal) {
+    const finalized = store.markPayoutJobFinalized({
+      jobId: job.job_id,
+      blockHeight: status.blockHeight,
+      now,
+    });
+    if (finalized) {
+      elizaLogger.log(`Payout finalized: ${job.job_id} txid ${job.txid}`);
+    }
+    return;
+  }
+  if (!status || status.blockHeight === null) {
+    if (
+      job.status === "confirmed" &&
+      store.markPayoutJobUnconfirmed({ jobId: job.job_id, now })
+    ) {
+      elizaLogger.warn(
+        `Payout tx left block ${job.block_height} in a reorg: ${job.job_id} txid ${job.txid}`
+      );
+    }
+    if (!status) {
+      await handleUnknownTx(store, job, now);
+      return;
+    }
+    store.markPayoutJobChecked(job.job_id, now);
+    return;
+  }
+  if (job.status === "broadcast" || job.block_height !== status.blockHeight) {
+    store.markPayoutJobConfirmed({
+      jobId: job.job_id,
+      blockHeight: status.blockHeight,
+      now,
+    });
+    elizaLogger.log(
+      `Payout confirmed: ${job.job_id} in block ${status.blockHeight}`
+    );
+    return;
+  }
+  store.markPayoutJobChecked(job.job_id, now);
+};
+
+const checkPayoutJobs = async (
+  store: TriviaRewardsStore,
+  jobs: PayoutJobRecord[]
+) => {
+  for (const job of jobs) {
+    try {
+      await checkPayoutTx(store, job);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      elizaLogger.warn(`Payout check failed: ${job.job_id} ${message}`);
+    }
+  }
+};
+
+// Follows every broadcast payout until it is finalized. Chronik's websocket
+// pushes mempool, block and finality events; when it is off or unreachable
+// each tick polls every tracked tx instead.
+export const startPayoutWatcher = (params: { store: TriviaRewardsStore }) => {
+  const { store } = params;
+  let ws: any = null;
+  let wsOpen = false;
+  let connectedOnce = false;
+  const subscribed = new Set<string>();
+
+  const checkTxid = (txid: string) => {
+    const job = store.getPayoutJobByTxid(txid);
+    if (job && (job.status === "broadcast" || job.status === "confirmed")) {
+      void checkPayoutJobs(store, [job]);
+    }
+  };
+
+  const connect = async () => {
+    try {
+      const chronik = new ChronikClient([getChronikUrl()]);
+      ws = chronik.ws({
+        onMessage: (msg: any) => {
+          if (msg?.type === "Tx" && typeof msg.txid === "string") {
+            checkTxid(msg.txid);
+          } else if (msg?.type === "Block") {
+            void checkPayoutJobs(store, store.listTrackedPayoutJobs());
+          }
+        },
+        onConnect: () => {
+          wsOpen = true;
+          // Events sent while disconnected are lost; catch up once.
+          if (connectedOnce) {
+            void checkPayoutJobs(store, store.listTrackedPayoutJobs());
+          }
+          connectedOnce = true;
+        },
+        onReconnect: () => {
+          wsOpen = false;
+        },
+        onEnd: () => {
+          wsOpen = false;
+        },
+        autoReconnect: true,
+      });
+      await ws.waitForOpen();
+      wsOpen = true;
+      connectedOnce = true;
+      ws.subscribeToBlocks();
+      elizaLogger.log("Payout watcher connected to the Chronik websocket.");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      ws = null;
+      wsOpen = false;
+      elizaLogger.warn(
+        `Payout watcher websocket unavailable, polling instead: ${message}`
+      );
+    }
+  };
+  if (isWebsocketEnabled()) {
+    void connect();
+  }
+
+  const tick = async () => {
+    const tracked = store.listTrackedPayoutJobs();
+    if (!ws || !wsOpen) {
+      await checkPayoutJobs(store, tracked);
+      return;
+    }
+    const trackedTxids = new Set(tracked.map((job) => job.txid));
+    for (const txid of subscribed) {
+      if (!trackedTxids.has(txid)) {
+        ws.unsubscribeFromTxid(txid);
+        subscribed.delete(txid);
+      }
+    }
+    const now = Date.now();
+    const due = tracked.filter(
+      (job) =>
+        !subscribed.has(job.txid) ||
+        job.status === "confirmed" ||
+        isPastDropTimeout(job, now)
+    );
+    for (const job of tracked) {
+      if (!subscribed.has(job.txid)) {
+        ws.subscribeToTxid(job.txid);
+        subscribed.add(job.txid);
+      }
+    }
+    // New subscriptions missed earlier events, a dropped tx sends none, and
+    // a confirmed tx is polled until it is final so a reorg is noticed.
+    await checkPayoutJobs(store, due);
+  };
+
+  return startIntervalLoop({
+    name: "Trivia payout watcher",
+    intervalMs:
+      Number(process.env.TRIVIA_PAYOUT_WATCH_INTERVAL_MS) ||
+      WATCH_INTERVAL_MS_DEFAULT,
+    tick,
+  });
+};
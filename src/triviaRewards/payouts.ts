@@ -0,0 +1,266 @@
+import crypto from "crypto";
+import { elizaLogger } from "@elizaos/core";
+import type {
+  PayoutJobRecord,
+  TriviaRewardsStore,
+} from "../db/triviaRewards.ts";
+import { getTxStatus } from "./chronik.ts";
+import {
+  broadcastRmzTx,
+  findMinedConflict,
+  getRmzTokenDecimals,
+  signRmzSend,
+} from "./rmzSend.ts";
+import { loadRewardWallet } from "./rewardWallet.ts";
+import { startIntervalLoop } from "./scheduler.ts";
+
+const PAYOUT_INTERVAL_MS_DEFAULT = 5 * 1000;
+const PAYOUT_MAX_ATTEMPTS_DEFAULT = 5;
+const PAYOUT_RETRY_MAX_MS = 10 * 60 * 1000;
+// Held while one job is signed and broadcast; a crashed worker's lock expires.
+const PAYOUT_JOB_LOCK_MS = 2 * 60 * 1000;
+
+const getPayoutIntervalMs = () =>
+  Number(process.env.TRIVIA_PAYOUT_INTERVAL_MS) || PAYOUT_INTERVAL_MS_DEFAULT;
+
+const getPayoutMaxAttempts = () =>
+  Math.max(
+    Math.trunc(Number(process.env.TRIVIA_PAYOUT_MAX_ATTEMPTS)) ||
+      PAYOUT_MAX_ATTEMPTS_DEFAULT,
+    1
+  );
+
+export const generatePayoutJobId = () => crypto.randomBytes(16).toString("hex");
+
+// Where the payout transaction stands on chain, once it was broadcast.
+export const toTxStatus = (job: PayoutJobRecord | undefined) => {
+  switch (job?.status) {
+    case "broadcast":
+      return "mempool";
+    case "confirmed":
+    case "finalized":
+    case "dropped":
+      return job.status;
+    default:
+      return null;
+  }
+};
+
+// What a claimant polling their job id sees: no payout address and no
+// signed bytes.
+export const toPublicPayoutJobView = (job: PayoutJobRecord) => ({
+  jobId: job.job_id,
+  status: job.status,
+  txStatus: toTxStatus(job),
+  dryRun: Boolean(job.dry_run),
+  txid: job.txid,
+  blockHeight: job.block_height,
+});
+
+export const toPayoutJobView = (job: PayoutJobRecord) => ({
+  jobId: job.job_id,
+  triviaId: job.trivia_id,
+  rewardRmz: job.rmz_amount,
+  address: job.address,
+  status: job.status,
+  txStatus: toTxStatus(job),
+  dryRun: Boolean(job.dry_run),
+  txid: job.txid,
+  // Dry runs are never broadcast; the signed bytes are returned to inspect.
+  rawTx: job.dry_run ? job.raw_tx : null,
+  attempts: job.attempts,
+  error: job.last_error,
+  blockHeight: job.block_height,
+  createdAt: job.created_at,
+  updatedAt: job.updated_at,
+  broadcastAt: job.broadcast_at,
+  confirmedAt: job.confirmed_at,
+  finalizedAt: job.finalized_at,
+  checkedAt: job.checked_at,
+});
+
+const getRetryAt = (job: PayoutJobRecord, now: number) =>
+  now +
+  Math.min(
+    getPayoutIntervalMs() * 2 ** (job.attempts + 1),
+    PAYOUT_RETRY_MAX_MS
+  );
+
+// A signed job may already sit in a mempool, and failing it would let the
+// claim be paid again from other UTXOs. It is only failed once a mined
+// transaction spent one of its inputs; until then the same bytes are
+// rebroadcast.
+const findSignedJobConflict = async (job: PayoutJobRecord) => {
+  try {
+    return await findMinedConflict(job.raw_tx, job.txid);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    elizaLogger.warn(`Payout conflict check failed: ${job.job_id} ${message}`);
+    return null;
+  }
+};
+
+const recordJobError = async (
+  store: TriviaRewardsStore,
+  job: PayoutJobRecord,
+  error: unknown
+) => {
+  const message = error instanceof Error ? error.message : String(error);
+  const attempts = job.attempts + 1;
+  if (job.raw_tx) {
+    const conflict = await findSignedJobConflict(job);
+    const now = Date.now();
+    if (conflict) {
+      store.failPayoutJob({
+        jobId: job.job_id,
+        error: `Inputs spent by ${conflict}: ${message}`,
+        now,
+      });
+      elizaLogger.error(
+        `Payout failed: ${job.job_id} (${job.trivia_id}) inputs spent by ${conflict}`
+      );
+      return;
+    }
+    store.recordPayoutJobError({
+      jobId: job.job_id,
+      error: message,
+      nextAttemptAt: getRetryAt(job, now),
+      now,
+    });
+    if (attempts >= getPayoutMaxAttempts()) {
+      elizaLogger.error(
+        `Payout broadcast still failing: ${job.job_id} (${job.trivia_id}) after ${attempts} attempts, needs an admin: ${message}`
+      );
+    } else {
+      elizaLogger.warn(`Payout broadcast failed: ${job.job_id} ${message}`);
+    }
+    return;
+  }
+  const now = Date.now();
+  if (attempts >= getPayoutMaxAttempts()) {
+    store.failPayoutJob({ jobId: job.job_id, error: message, now });
+    elizaLogger.error(
+      `Payout failed: ${job.job_id} (${job.trivia_id}) after ${attempts} attempts: ${message}`
+    );
+    return;
+  }
+  store.recordPayoutJobError({
+    jobId: job.job_id,
+    error: message,
+    nextAttemptAt: getRetryAt(job, now),
+    now,
+  });
+  elizaLogger.warn(`Payout attempt failed: ${job.job_id} ${message}`);
+};
+
+// Moves one job as far along as it goes. Every step re-reads the stored
+// state, so a crash at any point resumes from the last committed one.
+const processPayoutJob = async (
+  store: TriviaRewardsStore,
+  job: PayoutJobRecord
+) => {
+  let current = job;
+  if (current.status === "pending") {
+    let signed: { txid: string; rawTx: string };
+    try {
+      signed = await signRmzSend({
+        toAddress: current.address,
+        amountRmz: current.rmz_amount,
+      });
+    } catch (error) {
+      await recordJobError(store, current, error);
+      return;
+    }
+    store.markPayoutJobSigned({
+      jobId: current.job_id,
+      rawTx: signed.rawTx,
+      txid: signed.txid,
+      now: Date.now(),
+    });
+    elizaLogger.log(`Payout signed: ${current.job_id} txid ${signed.txid}`);
+    current = store.getPayoutJob(current.job_id);
+  }
+
+  if (current?.status === "signed" && current.dry_run) {
+    store.markPayoutJobDryRun({ jobId: current.job_id, now: Date.now() });
+    elizaLogger.log(
+      `Claim paid (dry run, not broadcast): ${current.trivia_id} -> ${current.address} txid ${current.txid}`
+    );
+    return;
+  }
+
+  if (current?.status === "signed") {
+    try {
+      await broadcastRmzTx(current.raw_tx);
+    } catch (error) {
+      // A broadcast that reached the node before a crash or timeout is
+      // rejected on retry; Chronik knowing the txid settles it.
+      const known = await getTxStatus(current.txid).catch(() => null);
+      if (!known) {
+        await recordJobError(store, current, error);
+        return;
+      }
+    }
+    store.markPayoutJobBroadcast({ jobId: current.job_id, now: Date.now() });
+    elizaLogger.log(
+      `Claim paid: ${current.trivia_id} -> ${current.address} txid ${current.txid}`
+    );
+  }
+};
+
+// Runs before any job is signed, so caps and new payouts never mix atoms
+// recorded by older versions with RMZ. Retried every tick until Chronik
+// answers with the token's decimals.
+const migratePayoutAmounts = async (store: TriviaRewardsStore) => {
+  if (!store.hasPayoutAmountsInAtoms()) return;
+  const decimals = await getRmzTokenDecimals();
+  const migrated = store.migratePayoutAmountsToRmz(decimals);
+  elizaLogger.log(
+    `Payout amounts migrated to RMZ (${decimals} decimals): ${migrated.payouts} payouts, ${migrated.jobs} jobs`
+  );
+};
+
+export const runPayoutTick = async (params: {
+  store: TriviaRewardsStore;
+  now?: number;
+}) => {
+  const { store } = params;
+  const now = params.now ?? Date.now();
+  await migratePayoutAmounts(store);
+  // Jobs run one at a time, and a signed job that has not been broadcast
+  // still holds inputs the wallet lists as unspent, so nothing new is signed
+  // until it is out. Signed jobs come first in the list.
+  for (const job of store.listRunnablePayoutJobs(now)) {
+    if (job.status === "pending" && store.hasUnbroadcastPayoutJob()) {
+      continue;
+    }
+    const locked = store.acquirePayoutJobLock({
+      jobId: job.job_id,
+      lockExpiresAt: Date.now() + PAYOUT_JOB_LOCK_MS,
+      now: Date.now(),
+    });
+    if (!locked) continue;
+    try {
+      await processPayoutJob(store, job);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.stack || error.message : String(error);
+      elizaLogger.error(`Payout job ${job.job_id} failed: ${errorMessage}`);
+    } finally {
+      store.releasePayoutJobLock(job.job_id);
+    }
+  }
+};
+
+// A misconfigured wallet stops the agent at startup instead of failing every
+// payout later.
+export const startPayoutWorker = (params: { store: TriviaRewardsStore }) => {
+  if (process.env.REWARD_WALLET_MNEMONIC || process.env.REWARD_WALLET_WIF) {
+    loadRewardWallet();
+  }
+  return startIntervalLoop({
+    name: "Trivia payout worker",
+    intervalMs: getPayoutIntervalMs(),
+    tick: () => runPayoutTick(params),
+  });
+};
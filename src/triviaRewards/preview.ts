@@ -0,0 +1,153 @@
+import type {
+  TriviaRecord,
+  TriviaReplyInsert,
+  TriviaRewardsStore,
+} from "../db/triviaRewards.ts";
+import { compareReplySpeed } from "./helpers.ts";
+import { getBlockHeight, getBlockInfo } from "./chronik.ts";
+import { parseStoredAnswerRules } from "./answerMatching.ts";
+import {
+  collectReplies,
+  computeTriviaRewards,
+  getEarlyDrawBlockError,
+  getRuntime,
+  getTwitterManager,
+  resolveDraw,
+  selectWinnerIds,
+  uniqueCorrectByUser,
+  type CloseTriviaOutcome,
+} from "./close.ts";
+import { snapshotTicketWeights, toTicketView } from "./weights.ts";
+
+const previewFailure = (status: number, error: string): CloseTriviaOutcome => ({
+  status,
+  body: { error },
+});
+
+const toParticipantView = (reply: TriviaReplyInsert) => ({
+  twitterUserId: reply.twitter_user_id,
+  twitterUsername: reply.twitter_username,
+  tweetId: reply.tweet_id,
+  text: reply.reply_text,
+  repliedAt: reply.created_at,
+});
+
+// Runs the close flow up to the draw without writing anything: replies that
+// are not stored yet are fetched and graded in memory, no lock is taken and
+// no claim code is generated. The seed and salt are not returned.
+export const previewTriviaClose = async (params: {
+  store: TriviaRewardsStore;
+  directClient: any;
+  trivia: TriviaRecord;
+  agentId?: string;
+}): Promise<CloseTriviaOutcome> => {
+  const { store, directClient, trivia } = params;
+  if (trivia.status !== "open") {
+    return previewFailure(409, `Trivia is ${trivia.status}.`);
+  }
+  const isFastest = trivia.selection_mode === "fastest";
+  const isLegacyDraw = !isFastest && !trivia.salt_commitment;
+  if (isLegacyDraw && !process.env.TRIVIA_SALT) {
+    return previewFailure(500, "TRIVIA_SALT not configured.");
+  }
+  const runtime = getRuntime(
+    directClient,
+    params.agentId ?? trivia.agent_id ?? undefined
+  );
+  const twitterManager = getTwitterManager(runtime);
+  if (!twitterManager) {
+    return previewFailure(500, "Twitter client not available.");
+  }
+
+  const { replies: fetched } = await collectReplies({
+    twitterManager,
+    tweetId: trivia.tweet_id,
+    triviaId: trivia.trivia_id,
+    correctAnswers: JSON.parse(trivia.correct_answers) as string[],
+    answerRules: parseStoredAnswerRules(trivia.answer_rules),
+    gradingMode: trivia.grading_mode,
+    createdAt: trivia.created_at,
+    closesAt: trivia.closes_at,
+    sinceId: trivia.last_reply_id,
+  });
+  // Stored replies win over refetched ones, as the insert at close ignores
+  // tweets it already has.
+  const stored: TriviaReplyInsert[] = store.listReplies(trivia.trivia_id);
+  const storedIds = new Set(stored.map((reply) => reply.tweet_id));
+  const newReplies = fetched.filter((reply) => !storedIds.has(reply.tweet_id));
+  const replies = [...stored, ...newReplies].sort(
+    isFastest ? compareReplySpeed : (a, b) => a.created_at - b.created_at
+  );
+
+  const uniqueCorrect = uniqueCorrectByUser(replies);
+  const pending = new Map<string, TriviaReplyInsert>();
+  const incorrect = new Map<string, TriviaReplyInsert>();
+  for (const reply of replies) {
+    const userId = reply.twitter_user_id;
+    if (uniqueCorrect.has(userId) || pending.has(userId)) continue;
+    if (reply.grading_source === null) {
+      incorrect.delete(userId);
+      pending.set(userId, reply);
+    } else if (!incorrect.has(userId)) {
+      incorrect.set(userId, reply);
+    }
+  }
+
+  const participantIds = Array.from(uniqueCorrect.keys()).sort();
+  let drawBlockMined = true;
+  if (!isFastest && !isLegacyDraw) {
+    drawBlockMined = (await getBlockHeight()) >= trivia.draw_block_height;
+    const earlyError =
+      drawBlockMined &&
+      getEarlyDrawBlockError(
+        trivia,
+        await getBlockInfo(trivia.draw_block_height)
+      );
+    if (earlyError) {
+      return previewFailure(409, earlyError);
+    }
+  }
+  // Balances are read live, so weighted odds can still move until close.
+  const tickets =
+    trivia.selection_mode === "weighted" && participantIds.length
+      ? await snapshotTicketWeights({ trivia, replies, participantIds })
+      : [];
+  const { winnerIndexes, winnerIds } =
+    participantIds.length && drawBlockMined
+      ? selectWinnerIds({
+          trivia,
+          uniqueCorrect,
+          participantIds,
+          seed: (await resolveDraw({ trivia, participantIds })).seed,
+          weights: tickets.map((ticket) => ticket.weight),
+        })
+      : { winnerIndexes: null, winnerIds: [] as string[] };
+  const rewards = await computeTriviaRewards(trivia, winnerIds.length);
+
+  return {
+    status: 200,
+    body: {
+      triviaId: trivia.trivia_id,
+      preview: true,
+      windowOpen: Date.now() < trivia.closes_at,
+      selectionMode: trivia.selection_mode,
+      gradingMode: trivia.grading_mode,
+      replyCount: replies.length,
+      newReplyCount: newReplies.length,
+      correct: Array.from(uniqueCorrect.values()).map(toParticipantView),
+      incorrect: Array.from(incorrect.values()).map(toParticipantView),
+      // LLM-graded replies are only graded at close.
+      pending: Array.from(pending.values()).map(toParticipantView),
+      participantIds,
+      drawBlockHeight: trivia.draw_block_height,
+      drawBlockMined,
+      tickets: tickets.length ? tickets.map(toTicketView) : null,
+      winnerIndexes,
+      winners: winnerIds.map((winnerId, position) => ({
+        rank: position + 1,
+        ...toParticipantView(uniqueCorrect.get(winnerId)),
+        rewardRmz: rewards[position],
+      })),
+    },
+  };
+};
@@ -0,0 +1,185 @@
+import type {
+  AnswerRules,
+  GradingMode,
+  GradingSource,
+  SelectionMode,
+  TriviaRecord,
+  TriviaRewardsStore,
+} from "../db/triviaRewards.ts";
+import {
+  buildDrawSeed,
+  compareReplySpeed,
+  deterministicPickMany,
+  deterministicWeightedPickMany,
+} from "./helpers.ts";
+import { parseStoredAnswerRules } from "./answerMatching.ts";
+import { resolveClaimPolicy } from "./claimPolicy.ts";
+import { uniqueCorrectByUser } from "./close.ts";
+import { toTicketView } from "./weights.ts";
+
+export type TriviaProof = {
+  triviaId: string;
+  tweetId: string;
+  closesAt: number;
+  correctAnswers: string[];
+  answerRules: AnswerRules;
+  gradingMode: GradingMode;
+  selectionMode: SelectionMode;
+  saltCommitment: string | null;
+  salt: string | null;
+  drawBlockHeight: number | null;
+  blockHeight: number;
+  blockHash: string | null;
+  seed: string | null;
+  participantIds: string[];
+  // Weighted draws only: the balance snapshot taken at close, one entry per
+  // participant id. Balances can be checked against Chronik history.
+  gatingTokenId: string | null;
+  weightCap: number | null;
+  weightUnitAtoms: number | null;
+  tickets: Array<ReturnType<typeof toTicketView>> | null;
+  correctReplyTweetIds: string[];
+  winnerIndex: number;
+  winner: { twitterUserId: string; tweetId: string } | null;
+  winnerCount: number;
+  winnerIndexes: number[] | null;
+  winners: Array<{
+    rank: number;
+    twitterUserId: string;
+    tweetId: string;
+    rewardRmz: number;
+  }>;
+  // Expired winners in the order they were replaced; each reroll takes the
+  // next pick of the draw.
+  rerolls: Array<{
+    rank: number;
+    twitterUserId: string;
+    tweetId: string;
+    rerolledAt: number;
+  }>;
+  replies: Array<{
+    tweetId: string;
+    twitterUserId: string;
+    normalizedText: string;
+    isCorrect: boolean;
+    gradingSource: GradingSource | null;
+    createdAt: number;
+  }>;
+};
+
+// Everything needed to recompute the draw offline with
+// scripts/verify-trivia-proof.mjs. Only closed commit/reveal trivias and
+// speed contests have a proof: legacy draws used the server-wide TRIVIA_SALT,
+// which stays secret.
+export const buildTriviaProof = (
+  store: TriviaRewardsStore,
+  trivia: TriviaRecord
+): { proof: TriviaProof | null; error?: string } => {
+  if (trivia.status === "open" || trivia.status === "posting") {
+    return { proof: null, error: "Trivia not closed yet." };
+  }
+  if (trivia.status === "cancelled") {
+    return { proof: null, error: "Trivia was cancelled before the draw." };
+  }
+  const isFastest = trivia.selection_mode === "fastest";
+  if (
+    !isFastest &&
+    (!trivia.salt_commitment || !trivia.salt || !trivia.block_hash)
+  ) {
+    return { proof: null, error: "Trivia was drawn before verifiable draws." };
+  }
+
+  const replies = store.listReplies(trivia.trivia_id);
+  const uniqueCorrect = uniqueCorrectByUser(
+    isFastest ? [...replies].sort(compareReplySpeed) : replies
+  );
+  const participantIds = Array.from(uniqueCorrect.keys()).sort();
+  const winnerCount = Math.max(trivia.winner_count || 1, 1);
+  const seed = isFastest
+    ? null
+    : buildDrawSeed({
+        salt: trivia.salt,
+        triviaId: trivia.trivia_id,
+        tweetId: trivia.tweet_id,
+        blockHash: trivia.block_hash,
+        participantIds,
+      });
+  const winners = store.listWinners(trivia.trivia_id);
+  const rerolls = store.listRerolledWinners(trivia.trivia_id);
+  const isWeighted = trivia.selection_mode === "weighted";
+  const tickets = isWeighted ? store.listTickets(trivia.trivia_id) : [];
+  const weights = new Map(
+    tickets.map((ticket) => [ticket.twitter_user_id, ticket.weight])
+  );
+  let winnerIndexes: number[] | null = null;
+  if (isWeighted) {
+    winnerIndexes = deterministicWeightedPickMany(
+      seed,
+      participantIds.map((participantId) => weights.get(participantId) ?? 1),
+      winnerCount + rerolls.length
+    );
+  } else if (!isFastest) {
+    winnerIndexes = deterministicPickMany(
+      seed,
+      participantIds.length,
+      winnerCount + rerolls.length
+    );
+  }
+
+  return {
+    proof: {
+      triviaId: trivia.trivia_id,
+      tweetId: trivia.tweet_id,
+      closesAt: trivia.closes_at,
+      correctAnswers: JSON.parse(trivia.correct_answers) as string[],
+      answerRules: parseStoredAnswerRules(trivia.answer_rules),
+      gradingMode: trivia.grading_mode,
+      selectionMode: trivia.selection_mode,
+      saltCommitment: trivia.salt_commitment,
+      salt: trivia.salt,
+      drawBlockHeight: trivia.draw_block_height,
+      blockHeight: trivia.block_height,
+      blockHash: trivia.block_hash,
+      seed,
+      participantIds,
+      gatingTokenId: isWeighted
+        ? resolveClaimPolicy(trivia).gatingTokenId
+        : null,
+      weightCap: trivia.weight_cap,
+      weightUnitAtoms: trivia.weight_unit_atoms,
+      tickets: isWeighted ? tickets.map(toTicketView) : null,
+      correctReplyTweetIds: replies
+        .filter((reply) => reply.is_correct)
+        .map((reply) => reply.tweet_id),
+      winnerIndex: winnerIndexes?.[0] ?? -1,
+      winner: trivia.winner_twitter_user_id
+        ? {
+            twitterUserId: trivia.winner_twitter_user_id,
+            tweetId: trivia.winner_tweet_id,
+          }
+        : null,
+      winnerCount,
+      winnerIndexes,
+      winners: winners.map((winner) => ({
+        rank: winner.rank,
+        twitterUserId: winner.twitter_user_id,
+        tweetId: winner.tweet_id,
+        rewardRmz: winner.reward_rmz,
+      })),
+      rerolls: rerolls.map((reroll) => ({
+        rank: reroll.rank,
+        twitterUserId: reroll.twitter_user_id,
+        tweetId: reroll.tweet_id,
+        rerolledAt: reroll.rerolled_at,
+      })),
+      replies: replies.map((reply) => ({
+        tweetId: reply.tweet_id,
+        twitterUserId: reply.twitter_user_id,
+        normalizedText: reply.normalized_text,
+        isCorrect: Boolean(reply.is_correct),
+        gradingSource: reply.grading_source,
+        createdAt: reply.created_at,
+      })),
+    },
+  };
+};
@@ -0,0 +1,71 @@
+import type {
+  TriviaRecord,
+  TriviaRewardsStore,
+} from "../db/triviaRewards.ts";
+import { resolveClaimPolicy } from "./claimPolicy.ts";
+import { toTxStatus } from "./payouts.ts";
+
+// Public shape of a trivia for unauthenticated readers. Claim codes, payout
+// addresses and the salt/seed (before the draw reveals them) never leave here.
+export const toPublicTrivia = (
+  store: TriviaRewardsStore,
+  trivia: TriviaRecord
+) => {
+  const stats = store.getReplyStats(trivia.trivia_id);
+  // Voided trivias were drawn too; their draw stays public.
+  const isClosed = trivia.status === "closed" || trivia.status === "voided";
+  const winnerReply =
+    isClosed && trivia.winner_tweet_id
+      ? store.getReply(trivia.trivia_id, trivia.winner_tweet_id)
+      : undefined;
+  const winners = isClosed ? store.listWinners(trivia.trivia_id) : [];
+  const claimPolicy = resolveClaimPolicy(trivia);
+
+  return {
+    triviaId: trivia.trivia_id,
+    tweetId: trivia.tweet_id,
+    question: trivia.question_text,
+    language: trivia.language,
+    status: trivia.status,
+    windowMinutes: trivia.window_minutes,
+    createdAt: trivia.created_at,
+    closesAt: trivia.closes_at,
+    rewardRmz: trivia.reward_rmz,
+    winnerCount: trivia.winner_count,
+    prizeMode: trivia.prize_mode,
+    selectionMode: trivia.selection_mode,
+    weightCap: trivia.weight_cap,
+    gradingMode: trivia.grading_mode,
+    claimTtlMs: claimPolicy.claimTtlMs,
+    gatingTokenId: claimPolicy.gatingTokenId,
+    participantCount: stats.participantCount,
+    correctCount: isClosed ? stats.correctCount : null,
+    draw: {
+      saltCommitment: trivia.salt_commitment,
+      drawBlockHeight: trivia.draw_block_height,
+      blockHash: isClosed ? trivia.block_hash : null,
+      salt: isClosed && trivia.block_hash ? trivia.salt : null,
+    },
+    winner: trivia.winner_twitter_user_id
+      ? {
+          twitterUserId: trivia.winner_twitter_user_id,
+          twitterUsername: winnerReply?.twitter_username ?? null,
+          tweetId: trivia.winner_tweet_id,
+        }
+      : null,
+    winners: winners.map((winner) => ({
+      rank: winner.rank,
+      twitterUserId: winner.twitter_user_id,
+      twitterUsername: winner.twitter_username,
+      tweetId: winner.tweet_id,
+      rewardRmz: winner.reward_rmz,
+      claimed: Boolean(winner.used_at),
+      // mempool, confirmed, finalized or dropped once the prize was sent.
+      payoutStatus: toTxStatus(store.getLivePayoutJob(winner.id)),
+    })),
+    claimed: winners.length
+      ? winners.every((winner) => Boolean(winner.used_at))
+      : Boolean(trivia.used_at),
+    announcementTweetId: trivia.announcement_tweet_id,
+  };
+};
@@ -0,0 +1,128 @@
+import type {
+  QuestionDifficulty,
+  TriviaQuestionDraftRecord,
+  TriviaQuestionInput,
+  TriviaQuestionRecord,
+} from "../db/triviaRewards.ts";
+
+const QUESTION_DIFFICULTIES: QuestionDifficulty[] = ["easy", "medium", "hard"];
+
+const optionalText = (value: unknown) =>
+  typeof value === "string" && value.trim() ? value.trim() : null;
+
+export const isQuestionDifficulty = (
+  value: unknown
+): value is QuestionDifficulty =>
+  QUESTION_DIFFICULTIES.includes(value as QuestionDifficulty);
+
+export const normalizeCategory = (value: unknown) =>
+  typeof value === "string" ? value.trim().toLowerCase() : "";
+
+export const toQuestionView = (question: TriviaQuestionRecord) => ({
+  questionId: question.id,
+  question: question.question_text,
+  correctAnswers: JSON.parse(question.correct_answers) as string[],
+  answerHint: question.answer_hint,
+  answerFormat: question.answer_format,
+  category: question.category,
+  difficulty: question.difficulty,
+  language: question.language,
+  timesUsed: question.times_used,
+  lastUsedAt: question.last_used_at,
+  createdAt: question.created_at,
+  updatedAt: question.updated_at,
+});
+
+export const toDraftView = (draft: TriviaQuestionDraftRecord) => ({
+  draftId: draft.id,
+  question: draft.question_text,
+  correctAnswers: JSON.parse(draft.correct_answers) as string[],
+  answerHint: draft.answer_hint,
+  answerFormat: draft.answer_format,
+  category: draft.category,
+  difficulty: draft.difficulty,
+  language: draft.language,
+  topic: draft.topic,
+  status: draft.status,
+  questionId: draft.question_id,
+  reviewNote: draft.review_note,
+  createdAt: draft.created_at,
+  reviewedAt: draft.reviewed_at,
+});
+
+// Validates a question from the admin API. On update (or draft approval),
+// fields missing from the body keep the stored value so partial edits do not
+// wipe the rest.
+export const parseQuestionInput = (
+  body: any,
+  existing?: Pick<
+    TriviaQuestionRecord,
+    | "question_text"
+    | "correct_answers"
+    | "answer_hint"
+    | "answer_format"
+    | "category"
+    | "difficulty"
+    | "language"
+  >
+): { input: TriviaQuestionInput | null; error?: string } => {
+  const raw = body || {};
+  const questionText =
+    raw.question !== undefined
+      ? optionalText(raw.question)
+      : existing?.question_text ?? null;
+  if (!questionText) {
+    return { input: null, error: "Missing question." };
+  }
+
+  const correctAnswers =
+    raw.correctAnswers !== undefined
+      ? raw.correctAnswers
+      : existing
+        ? (JSON.parse(existing.correct_answers) as string[])
+        : undefined;
+  if (
+    !Array.isArray(correctAnswers) ||
+    !correctAnswers.some((answer) => optionalText(answer))
+  ) {
+    return { input: null, error: "correctAnswers must list at least one answer." };
+  }
+
+  const category =
+    raw.category !== undefined
+      ? normalizeCategory(raw.category)
+      : existing?.category ?? "";
+  if (!category) {
+    return { input: null, error: "Missing category." };
+  }
+
+  const difficulty = raw.difficulty ?? existing?.difficulty ?? "medium";
+  if (!isQuestionDifficulty(difficulty)) {
+    return { input: null, error: "difficulty must be easy, medium or hard." };
+  }
+
+  const language = raw.language ?? existing?.language ?? "es";
+  if (language !== "es" && language !== "en") {
+    return { input: null, error: "language must be es or en." };
+  }
+
+  return {
+    input: {
+      questionText,
+      correctAnswers: correctAnswers
+        .map((answer: unknown) => optionalText(answer))
+        .filter(Boolean),
+      answerHint:
+        raw.answerHint !== undefined
+          ? optionalText(raw.answerHint)
+          : existing?.answer_hint ?? null,
+      answerFormat:
+        raw.answerFormat !== undefined
+          ? optionalText(raw.answerFormat)
+          : existing?.answer_format ?? null,
+      category,
+      difficulty,
+      language,
+    },
+  };
+};
@@ -0,0 +1,111 @@
+import {
+  ModelClass,
+  elizaLogger,
+  generateText,
+  parseJsonArrayFromText,
+} from "@elizaos/core";
+import type {
+  QuestionDifficulty,
+  TriviaLanguage,
+  TriviaQuestionInput,
+  TriviaRewardsStore,
+} from "../db/triviaRewards.ts";
+import { renderTemplate } from "./announce.ts";
+import { normalizeCategory, parseQuestionInput } from "./questionBank.ts";
+
+const KNOWN_QUESTIONS_IN_PROMPT = 30;
+
+const LANGUAGE_NAMES: Record<TriviaLanguage, string> = {
+  es: "Spanish",
+  en: "English",
+};
+
+const DRAFT_TEMPLATE = `You are {agentName}. {bio}
+
+Posting style:
+{style}
+
+Write {count} trivia questions for your community on X about: {topics}.
+Each question must have a short, unambiguous answer that can be checked by exact text match. Write in {language}, in your own voice.{difficulty}
+Do not repeat any of these existing questions:
+{knownQuestions}
+
+Respond with a JSON array only, one object per question:
+[{"question": "...", "correctAnswers": ["...", "..."], "answerHint": "..." or null, "topic": "one of the topics above", "difficulty": "easy" | "medium" | "hard"}]`;
+
+const joinLines = (value: unknown) =>
+  Array.isArray(value)
+    ? value.filter((line) => typeof line === "string").join("\n")
+    : typeof value === "string"
+      ? value
+      : "";
+
+export const getCharacterTopics = (runtime: any): string[] =>
+  Array.isArray(runtime?.character?.topics)
+    ? runtime.character.topics.filter(
+        (topic: unknown) => typeof topic === "string" && topic.trim()
+      )
+    : [];
+
+// Asks the agent's model for candidate questions. Nothing is stored or posted
+// here: the caller saves the valid ones as pending drafts for review.
+export const generateQuestionDrafts = async (params: {
+  store: TriviaRewardsStore;
+  runtime: any;
+  count: number;
+  topics: string[];
+  language: TriviaLanguage;
+  difficulty?: QuestionDifficulty;
+}) => {
+  const { store, runtime, count, topics, language } = params;
+  const character = runtime?.character ?? {};
+  const knownQuestions = store
+    .listQuestions({ language, limit: KNOWN_QUESTIONS_IN_PROMPT })
+    .map((question) => `- ${question.question_text}`);
+
+  const context = renderTemplate(DRAFT_TEMPLATE, {
+    agentName: character.name || "the agent",
+    bio: joinLines(character.bio),
+    style: joinLines(character.style?.post) || "(none)",
+    count: String(count),
+    topics: topics.join(", "),
+    language: LANGUAGE_NAMES[language],
+    difficulty: params.difficulty
+      ? ` All questions must be ${params.difficulty}.`
+      : "",
+    knownQuestions: knownQuestions.join("\n") || "(none yet)",
+  });
+  const output = await generateText({
+    runtime,
+    context,
+    modelClass: ModelClass.MEDIUM,
+  });
+
+  const items = parseJsonArrayFromText(output) ?? [];
+  const drafts: Array<TriviaQuestionInput & { topic: string | null }> = [];
+  for (const item of items.slice(0, count)) {
+    const topic =
+      topics.find(
+        (candidate) =>
+          normalizeCategory(candidate) === normalizeCategory(item?.topic)
+      ) ?? (topics.length === 1 ? topics[0] : null);
+    const { input, error } = parseQuestionInput({
+      question: item?.question,
+      correctAnswers: item?.correctAnswers,
+      answerHint: item?.answerHint,
+      category: topic ?? item?.topic,
+      difficulty:
+        params.difficulty ??
+        (typeof item?.difficulty === "string"
+          ? item.difficulty.toLowerCase()
+          : undefined),
+      language,
+    });
+    if (!input) {
+      elizaLogger.warn(`Trivia draft discarded: ${error}`);
+      continue;
+    }
+    drafts.push({ ...input, topic });
+  }
+  return drafts;
+};
@@ -0,0 +1,72 @@
+import { elizaLogger } from "@elizaos/core";
+import type { TriviaRewardsStore } from "../db/triviaRewards.ts";
+import { parseStoredAnswerRules } from "./answerMatching.ts";
+import { collectReplies, getRuntime, getTwitterManager } from "./close.ts";
+import { startIntervalLoop } from "./scheduler.ts";
+
+const REPLY_POLL_INTERVAL_MS_DEFAULT = 60 * 1000;
+
+const isReplyPollEnabled = () => process.env.TRIVIA_REPLY_POLL !== "false";
+
+export const runReplyPollTick = async (params: {
+  store: TriviaRewardsStore;
+  directClient: any;
+  now?: number;
+}) => {
+  const { store, directClient } = params;
+  const openTrivias = store.listOpenTrivias(params.now ?? Date.now());
+  if (!openTrivias.length) return;
+
+  for (const trivia of openTrivias) {
+    const twitterManager = getTwitterManager(
+      getRuntime(directClient, trivia.agent_id ?? undefined)
+    );
+    if (!twitterManager) continue;
+    try {
+      const { replies, newestTweetId, truncated } = await collectReplies({
+        twitterManager,
+        tweetId: trivia.tweet_id,
+        triviaId: trivia.trivia_id,
+        correctAnswers: JSON.parse(trivia.correct_answers) as string[],
+        answerRules: parseStoredAnswerRules(trivia.answer_rules),
+        gradingMode: trivia.grading_mode,
+        createdAt: trivia.created_at,
+        closesAt: trivia.closes_at,
+        sinceId: trivia.last_reply_id,
+      });
+      store.addReplies(replies);
+      if (newestTweetId && !truncated) {
+        store.setLastReplyId(trivia.trivia_id, newestTweetId);
+      }
+      if (replies.length) {
+        elizaLogger.log(
+          `Trivia replies ingested: ${trivia.trivia_id} +${replies.length}`
+        );
+      }
+    } catch (error) {
+      // Rate limits are expected here; the next tick (or close) catches up.
+      const message = error instanceof Error ? error.message : String(error);
+      elizaLogger.warn(
+        `Trivia reply poll failed: ${trivia.trivia_id} ${message}`
+      );
+    }
+  }
+};
+
+export const startReplyPoller = (params: {
+  store: TriviaRewardsStore;
+  directClient: any;
+}) => {
+  if (!isReplyPollEnabled()) {
+    elizaLogger.log("Trivia reply poller disabled (TRIVIA_REPLY_POLL=false).");
+    return null;
+  }
+
+  return startIntervalLoop({
+    name: "Trivia reply poller",
+    intervalMs:
+      Number(process.env.TRIVIA_REPLY_POLL_INTERVAL_MS) ||
+      REPLY_POLL_INTERVAL_MS_DEFAULT,
+    tick: () => runReplyPollTick(params),
+  });
+};
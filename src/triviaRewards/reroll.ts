@@ -0,0 +1,177 @@
+import crypto from "crypto";
+import { elizaLogger } from "@elizaos/core";
+import type {
+  TriviaRecord,
+  TriviaRewardsStore,
+  TriviaWinnerInsert,
+  TriviaWinnerRecord,
+} from "../db/triviaRewards.ts";
+import {
+  compareReplySpeed,
+  deterministicPickMany,
+  deterministicWeightedPickMany,
+} from "./helpers.ts";
+import { announceRerolledWinner } from "./announce.ts";
+import { resolveClaimPolicy } from "./claimPolicy.ts";
+import {
+  getRuntime,
+  getTwitterManager,
+  uniqueCorrectByUser,
+} from "./close.ts";
+import { startIntervalLoop } from "./scheduler.ts";
+
+const REROLL_INTERVAL_MS_DEFAULT = 60 * 1000;
+
+// Rerolls allowed per prize; 0 (the default) keeps expired prizes unclaimed.
+const getRerollMax = () =>
+  Math.max(Math.trunc(Number(process.env.TRIVIA_REROLL_MAX) || 0), 0);
+
+const isRerollAnnounceEnabled = () =>
+  (process.env.TRIVIA_REROLL_ANNOUNCE ||
+    process.env.TRIVIA_ANNOUNCE_WINNERS) === "true";
+
+// Every correct participant in the order the draw picks them: the original
+// winners first, then one more per reroll. Random draws keep going with the
+// seed stored at close (and weighted ones with the ticket snapshot), so
+// rerolls stay verifiable from the proof.
+export const buildDrawOrder = (
+  store: TriviaRewardsStore,
+  trivia: TriviaRecord
+) => {
+  const correctReplies = store.listCorrectReplies(trivia.trivia_id);
+  if (trivia.selection_mode === "fastest") {
+    correctReplies.sort(compareReplySpeed);
+  }
+  const uniqueCorrect = uniqueCorrectByUser(correctReplies);
+  if (trivia.selection_mode === "fastest") {
+    return { uniqueCorrect, order: Array.from(uniqueCorrect.keys()) };
+  }
+  const participantIds = Array.from(uniqueCorrect.keys()).sort();
+  if (!trivia.seed) {
+    return { uniqueCorrect, order: [] as string[] };
+  }
+  let indexes: number[];
+  if (trivia.selection_mode === "weighted") {
+    const weights = new Map(
+      store
+        .listTickets(trivia.trivia_id)
+        .map((ticket) => [ticket.twitter_user_id, ticket.weight])
+    );
+    indexes = deterministicWeightedPickMany(
+      trivia.seed,
+      participantIds.map((participantId) => weights.get(participantId) ?? 1),
+      participantIds.length
+    );
+  } else {
+    indexes = deterministicPickMany(
+      trivia.seed,
+      participantIds.length,
+      participantIds.length
+    );
+  }
+  const order = indexes.map((index) => participantIds[index]);
+  return { uniqueCorrect, order };
+};
+
+const rerollExpiredClaim = async (params: {
+  store: TriviaRewardsStore;
+  directClient: any;
+  claim: TriviaWinnerRecord;
+  now: number;
+}) => {
+  const { store, directClient, claim, now } = params;
+  const trivia = store.getTrivia(claim.trivia_id);
+  if (!trivia) return;
+  const rerolled = store.listRerolledWinners(trivia.trivia_id);
+  const rerollsForRank = rerolled.filter(
+    (entry) => entry.rank === claim.rank
+  ).length;
+  if (rerollsForRank >= getRerollMax()) {
+    store.markClaimExpired(claim.id, now);
+    elizaLogger.log(
+      `Trivia claim expired: ${trivia.trivia_id} rank ${claim.rank} (${rerollsForRank} rerolls)`
+    );
+    return;
+  }
+
+  const { uniqueCorrect, order } = buildDrawOrder(store, trivia);
+  const pickIndex =
+    store.listWinners(trivia.trivia_id).length + rerolled.length;
+  const reply = uniqueCorrect.get(order[pickIndex]);
+  if (!reply) {
+    store.markClaimExpired(claim.id, now);
+    elizaLogger.log(
+      `Trivia claim expired: ${trivia.trivia_id} rank ${claim.rank} (no participants left)`
+    );
+    return;
+  }
+
+  const winner: TriviaWinnerInsert = {
+    rank: claim.rank,
+    twitter_user_id: reply.twitter_user_id,
+    twitter_username: reply.twitter_username,
+    tweet_id: reply.tweet_id,
+    reward_rmz: claim.reward_rmz,
+    claim_code: crypto.randomBytes(16).toString("hex"),
+    claim_expires_at: now + resolveClaimPolicy(trivia).claimTtlMs,
+  };
+  const replaced = store.rerollWinner({
+    winnerId: claim.id,
+    claimCode: claim.claim_code,
+    winner,
+    now,
+  });
+  if (!replaced) return;
+  elizaLogger.log(
+    `Trivia claim rerolled: ${trivia.trivia_id} rank ${claim.rank} ${claim.twitter_user_id} -> ${winner.twitter_user_id}`
+  );
+
+  if (!isRerollAnnounceEnabled()) return;
+  const runtime = getRuntime(directClient, trivia.agent_id ?? undefined);
+  await announceRerolledWinner({
+    runtime,
+    twitterManager: getTwitterManager(runtime),
+    trivia: store.getTrivia(trivia.trivia_id) ?? trivia,
+    winner,
+  });
+};
+
+// Claims are handled in expiry, trivia and rank order, which fixes the order
+// rerolls consume the draw.
+export const runRerollTick = async (params: {
+  store: TriviaRewardsStore;
+  directClient: any;
+  now?: number;
+}) => {
+  const { store, directClient } = params;
+  const now = params.now ?? Date.now();
+  for (const claim of store.listExpiredClaims(now)) {
+    try {
+      await rerollExpiredClaim({ store, directClient, claim, now });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.stack || error.message : String(error);
+      elizaLogger.error(
+        `Trivia reroll failed: ${claim.trivia_id} rank ${claim.rank} ${errorMessage}`
+      );
+    }
+  }
+};
+
+export const startRerollLoop = (params: {
+  store: TriviaRewardsStore;
+  directClient: any;
+}) => {
+  if (!getRerollMax()) {
+    elizaLogger.log("Trivia claim rerolls disabled (TRIVIA_REROLL_MAX=0).");
+    return null;
+  }
+
+  return startIntervalLoop({
+    name: "Trivia claim reroll loop",
+    intervalMs:
+      Number(process.env.TRIVIA_REROLL_INTERVAL_MS) ||
+      REROLL_INTERVAL_MS_DEFAULT,
+    tick: () => runRerollTick(params),
+  });
+};
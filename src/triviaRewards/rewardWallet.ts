@@ -0,0 +1,212 @@
+import {
+  Address,
+  ALL_BIP143,
+  Ecc,
+  HdNode,
+  mnemonicToEntropy,
+  mnemonicToSeed,
+  P2PKHSignatory,
+  Script,
+  shaRmd160,
+} from "ecash-lib";
+import * as ecashLib from "ecash-lib";
+import { decodeBase58Check } from "ecash-lib/dist/address/legacyaddr.js";
+import englishWordList from "ecash-lib/wordlists/english.json" with { type: "json" };
+
+// BIP44 with the eCash coin type; each address is `${path}/${index}`.
+const DERIVATION_PATH_DEFAULT = "m/44'/899'/0'/0";
+const DERIVATION_PATH_PATTERN = /^m(\/\d+'?)+$/;
+const ADDRESS_COUNT_MAX = 20;
+const MNEMONIC_WORD_COUNTS = [12, 15, 18, 21, 24];
+
+export type RewardWalletKey = {
+  // Null for a key imported from REWARD_WALLET_WIF.
+  path: string | null;
+  sk: Uint8Array;
+  pk: Uint8Array;
+  address: string;
+  script: Script;
+  signatory: ReturnType<typeof P2PKHSignatory>;
+};
+
+export type RewardWallet = {
+  source: "mnemonic" | "wif";
+  keys: RewardWalletKey[];
+};
+
+export type RewardWalletUtxo = {
+  outpoint: { txid: string; outIdx: number };
+  sats: bigint;
+  token?: any;
+  key: RewardWalletKey;
+};
+
+const decodeWifCompat = (wif: string) => {
+  const maybeDecodeWif = (ecashLib as { decodeWif?: unknown }).decodeWif;
+  if (typeof maybeDecodeWif === "function") {
+    const decoded = (maybeDecodeWif as (input: string) => unknown)(wif);
+    if (decoded && typeof decoded === "object") {
+      const maybeKey =
+        (decoded as { privateKey?: Uint8Array }).privateKey ??
+        (decoded as { privKey?: Uint8Array }).privKey ??
+        (decoded as { key?: Uint8Array }).key;
+      if (maybeKey instanceof Uint8Array && maybeKey.length === 32) {
+        return maybeKey;
+      }
+    }
+    throw new Error("ecash-lib decodeWif returned an unsupported shape.");
+  }
+  if (typeof maybeDecodeWif !== "undefined") {
+    throw new Error(
+      `ecash-lib decodeWif is not a function. Available exports: ${Object.keys(
+        ecashLib
+      ).join(", ")}`
+    );
+  }
+
+  const payload = decodeBase58Check(wif);
+  if (payload.length !== 33 && payload.length !== 34) {
+    throw new Error("Invalid WIF payload length.");
+  }
+  const version = payload[0];
+  if (version !== 0x80 && version !== 0xef) {
+    throw new Error("Unsupported WIF version byte.");
+  }
+  if (payload.length === 34 && payload[33] !== 0x01) {
+    throw new Error("Invalid WIF compression flag.");
+  }
+  return payload.slice(1, 33);
+};
+
+const extractUtxos = (data: unknown) => {
+  if (!data) return [];
+  if (Array.isArray(data)) {
+    return data.flatMap((entry) =>
+      Array.isArray((entry as { utxos?: unknown }).utxos)
+        ? (entry as { utxos: [] }).utxos
+        : []
+    );
+  }
+  if (Array.isArray((data as { utxos?: unknown }).utxos)) {
+    return (data as { utxos: [] }).utxos;
+  }
+  return [];
+};
+
+const toWalletKey = (
+  ecc: Ecc,
+  sk: Uint8Array,
+  path: string | null
+): RewardWalletKey => {
+  const pk = ecc.derivePubkey(sk);
+  const address = Address.p2pkh(shaRmd160(pk)).address;
+  return {
+    path,
+    sk,
+    pk,
+    address,
+    script: Script.fromAddress(address),
+    signatory: P2PKHSignatory(sk, pk, ALL_BIP143),
+  };
+};
+
+const getAddressCount = () => {
+  const raw = process.env.REWARD_WALLET_ADDRESS_COUNT;
+  if (!raw) return 1;
+  const count = Number(raw);
+  if (!Number.isInteger(count) || count < 1 || count > ADDRESS_COUNT_MAX) {
+    throw new Error(
+      `REWARD_WALLET_ADDRESS_COUNT must be between 1 and ${ADDRESS_COUNT_MAX}.`
+    );
+  }
+  return count;
+};
+
+const deriveMnemonicKeys = (ecc: Ecc, mnemonic: string) => {
+  const words = mnemonic.trim().split(/\s+/);
+  if (!MNEMONIC_WORD_COUNTS.includes(words.length)) {
+    throw new Error(
+      `REWARD_WALLET_MNEMONIC must have ${MNEMONIC_WORD_COUNTS.join(", ")} words.`
+    );
+  }
+  // A typo in one word still derives keys, just for an empty wallet; the
+  // BIP39 checksum catches it. ecash-lib's error would quote the bad word.
+  try {
+    mnemonicToEntropy(words.join(" "), englishWordList.words);
+  } catch {
+    throw new Error(
+      "REWARD_WALLET_MNEMONIC has a word outside the BIP39 English list or a bad checksum."
+    );
+  }
+  const basePath = process.env.REWARD_WALLET_PATH || DERIVATION_PATH_DEFAULT;
+  if (!DERIVATION_PATH_PATTERN.test(basePath)) {
+    throw new Error(`Invalid REWARD_WALLET_PATH: ${basePath}`);
+  }
+  const root = HdNode.fromSeed(mnemonicToSeed(words.join(" ")));
+  return Array.from({ length: getAddressCount() }, (_, index) => {
+    const path = `${basePath}/${index}`;
+    const sk = root.derivePath(path).seckey();
+    if (!(sk instanceof Uint8Array)) {
+      throw new Error(`Could not derive a private key at ${path}.`);
+    }
+    return toWalletKey(ecc, sk, path);
+  });
+};
+
+let cachedWallet: { signature: string; wallet: RewardWallet } | null = null;
+
+// The one place signing keys come from. REWARD_WALLET_MNEMONIC takes
+// precedence over REWARD_WALLET_WIF.
+export const loadRewardWallet = (): RewardWallet => {
+  const mnemonic = process.env.REWARD_WALLET_MNEMONIC;
+  const wif = process.env.REWARD_WALLET_WIF;
+  if (!mnemonic && !wif) {
+    throw new Error("REWARD_WALLET_MNEMONIC or REWARD_WALLET_WIF is not set.");
+  }
+  const signature = [
+    mnemonic ?? "",
+    wif ?? "",
+    process.env.REWARD_WALLET_PATH ?? "",
+    process.env.REWARD_WALLET_ADDRESS_COUNT ?? "",
+  ].join("|");
+  if (cachedWallet?.signature === signature) {
+    return cachedWallet.wallet;
+  }
+
+  const ecc = new Ecc();
+  const wallet: RewardWallet = mnemonic
+    ? { source: "mnemonic", keys: deriveMnemonicKeys(ecc, mnemonic) }
+    : { source: "wif", keys: [toWalletKey(ecc, decodeWifCompat(wif), null)] };
+  cachedWallet = { signature, wallet };
+  return wallet;
+};
+
+// UTXOs of every wallet address, each tagged with the key that spends it.
+export const listRewardWalletUtxos = async (
+  chronik: any,
+  wallet: RewardWallet
+): Promise<RewardWalletUtxo[]> => {
+  const utxos: RewardWalletUtxo[] = [];
+  for (const key of wallet.keys) {
+    const response = await chronik.address(key.address).utxos();
+    for (const utxo of extractUtxos(response)) {
+      utxos.push({ ...(utxo as object), key } as RewardWalletUtxo);
+    }
+  }
+  return utxos;
+};
+
+// Change goes to the address holding the fewest UTXOs, which spreads coins
+// across the derived addresses over time.
+export const pickChangeKey = (
+  wallet: RewardWallet,
+  utxos: RewardWalletUtxo[]
+) => {
+  const counts = new Map(wallet.keys.map((key) => [key.address, 0]));
+  for (const utxo of utxos) {
+    counts.set(utxo.key.address, (counts.get(utxo.key.address) ?? 0) + 1);
+  }
+  return wallet.keys.reduce((best, key) =>
+    counts.get(key.address) < counts.get(best.address) ? key : best
+  );
+};
@@ -1,19 +1,27 @@
+import crypto from "crypto";
 import { ChronikClient } from "chronik-client";
 import {
   Address,
-  ALL_BIP143,
-  Ecc,
-  P2PKHSignatory,
   Script,
+  Tx,
   TxBuilder,
   type TxBuilderOutput,
-  shaRmd160,
+  fromHex,
   slpSend,
+  toHexRev,
 } from "ecash-lib";
-import * as ecashLib from "ecash-lib";
-import { decodeBase58Check } from "ecash-lib/dist/address/legacyaddr.js";
+import {
+  listRewardWalletUtxos,
+  loadRewardWallet,
+  pickChangeKey,
+  type RewardWalletUtxo,
+} from "./rewardWallet.ts";
+import { toTokenAtoms } from "./helpers.ts";
+
+// `amountRmz` is in display units; the token's decimals turn it into atoms.
+export type RmzSendParams = { toAddress: string; amountRmz: number };
 
-export type RmzSendParams = { toAddress: string; amountRmzAtoms: bigint };
+export type SignedRmzSend = { txid: string; rawTx: string };
 
 const DUST_SATS = 546n;
 const FEE_PER_KB = 1200n;
@@ -26,8 +34,46 @@ const getEnv = (key: string) => {
   return value;
 };
 
+// Everything up to the broadcast still runs, so staging exercises UTXO
+// selection and signing against the real wallet.
+export const isRewardDryRun = () => process.env.REWARD_DRY_RUN === "true";
+
 const normalizeChronikUrl = (url: string) => url.replace(/\/+$/, "");
 
+const getChronik = () =>
+  new ChronikClient([normalizeChronikUrl(getEnv("CHRONIK_URL"))]);
+
+type RmzTokenInfo = {
+  tokenId: string;
+  tokenTypeNumber: number;
+  decimals: number;
+};
+
+let cachedTokenInfo: RmzTokenInfo | null = null;
+
+// Genesis info never changes, so one lookup per process is enough.
+const getRmzTokenInfo = async (
+  chronik: ChronikClient
+): Promise<RmzTokenInfo> => {
+  const tokenId = getEnv("RMZ_TOKEN_ID");
+  if (cachedTokenInfo?.tokenId === tokenId) {
+    return cachedTokenInfo;
+  }
+  const tokenInfo = await chronik.token(tokenId);
+  if (tokenInfo.tokenType.protocol !== "SLP") {
+    throw new Error("RMZ token is not an SLP token.");
+  }
+  cachedTokenInfo = {
+    tokenId,
+    tokenTypeNumber: tokenInfo.tokenType.number,
+    decimals: Number(tokenInfo.genesisInfo?.decimals ?? 0),
+  };
+  return cachedTokenInfo;
+};
+
+export const getRmzTokenDecimals = async () =>
+  (await getRmzTokenInfo(getChronik())).decimals;
+
 const parseRecipientAddress = (address: string) => {
   if (!address.toLowerCase().startsWith("ecash:")) {
     throw new Error("Recipient address must start with ecash:.");
@@ -40,88 +86,41 @@ const parseRecipientAddress = (address: string) => {
   return parsed.address;
 };
 
-const decodeWifCompat = (wif: string) => {
-  const maybeDecodeWif = (ecashLib as { decodeWif?: unknown }).decodeWif;
-  if (typeof maybeDecodeWif === "function") {
-    const decoded = (maybeDecodeWif as (input: string) => unknown)(wif);
-    if (decoded && typeof decoded === "object") {
-      const maybeKey =
-        (decoded as { privateKey?: Uint8Array }).privateKey ??
-        (decoded as { privKey?: Uint8Array }).privKey ??
-        (decoded as { key?: Uint8Array }).key;
-      if (maybeKey instanceof Uint8Array && maybeKey.length === 32) {
-        return maybeKey;
-      }
-    }
-    throw new Error("ecash-lib decodeWif returned an unsupported shape.");
-  }
-  if (typeof maybeDecodeWif !== "undefined") {
-    throw new Error(
-      `ecash-lib decodeWif is not a function. Available exports: ${Object.keys(
-        ecashLib
-      ).join(", ")}`
-    );
-  }
-
-  const payload = decodeBase58Check(wif);
-  if (payload.length !== 33 && payload.length !== 34) {
-    throw new Error("Invalid WIF payload length.");
-  }
-  const version = payload[0];
-  if (version !== 0x80 && version !== 0xef) {
-    throw new Error("Unsupported WIF version byte.");
-  }
-  if (payload.length === 34 && payload[33] !== 0x01) {
-    throw new Error("Invalid WIF compression flag.");
-  }
-  return payload.slice(1, 33);
-};
-
-const extractUtxos = (data: unknown) => {
-  if (!data) return [];
-  if (Array.isArray(data)) {
-    return data.flatMap((entry) =>
-      Array.isArray((entry as { utxos?: unknown }).utxos)
-        ? (entry as { utxos: [] }).utxos
-        : []
-    );
-  }
-  if (Array.isArray((data as { utxos?: unknown }).utxos)) {
-    return (data as { utxos: [] }).utxos;
-  }
-  return [];
+// Txids are the reversed double sha256 of the serialized transaction.
+const computeTxid = (rawTx: Uint8Array) => {
+  const once = crypto.createHash("sha256").update(rawTx).digest();
+  return Buffer.from(crypto.createHash("sha256").update(once).digest())
+    .reverse()
+    .toString("hex");
 };
 
-export const sendRmz = async (params: RmzSendParams): Promise<string> => {
-  if (params.amountRmzAtoms <= 0n) {
-    throw new Error("amountRmzAtoms must be greater than zero.");
-  }
-
+// Builds and signs the payout without broadcasting it, so the caller can
+// persist the exact bytes first.
+export const signRmzSend = async (
+  params: RmzSendParams
+): Promise<SignedRmzSend> => {
   const toAddress = parseRecipientAddress(params.toAddress);
-  const chronikUrl = normalizeChronikUrl(getEnv("CHRONIK_URL"));
-  const tokenId = getEnv("RMZ_TOKEN_ID");
-  const wif = getEnv("REWARD_WALLET_WIF");
+  const wallet = loadRewardWallet();
 
-  const chronik = new ChronikClient([chronikUrl]);
-  const tokenInfo = await chronik.token(tokenId);
-  if (tokenInfo.tokenType.protocol !== "SLP") {
-    throw new Error("RMZ token is not an SLP token.");
+  const chronik = getChronik();
+  const { tokenId, tokenTypeNumber, decimals } = await getRmzTokenInfo(chronik);
+  const amountAtoms = toTokenAtoms(params.amountRmz, decimals);
+  if (amountAtoms === null) {
+    throw new Error(
+      `amountRmz ${params.amountRmz} has more than ${decimals} decimals.`
+    );
+  }
+  if (amountAtoms <= 0n) {
+    throw new Error("amountRmz must be greater than zero.");
   }
-  const tokenTypeNumber = tokenInfo.tokenType.number;
 
-  const sk = decodeWifCompat(wif);
-  const ecc = new Ecc();
-  const pk = ecc.derivePubkey(sk);
-  const pkh = shaRmd160(pk);
-  const senderAddress = Address.p2pkh(pkh).address;
-  const senderScript = Script.fromAddress(senderAddress);
   const recipientScript = Script.fromAddress(toAddress);
 
-  const utxoResponse = await chronik.address(senderAddress).utxos();
-  const utxos = extractUtxos(utxoResponse);
+  const utxos = await listRewardWalletUtxos(chronik, wallet);
   if (utxos.length === 0) {
     throw new Error("No UTXOs available for the reward wallet.");
   }
+  const changeScript = pickChangeKey(wallet, utxos).script;
 
   const tokenIdLower = tokenId.toLowerCase();
   const tokenUtxos = utxos
@@ -154,17 +153,17 @@ export const sendRmz = async (params: RmzSendParams): Promise<string> => {
     if (atoms <= 0n) continue;
     selectedTokenUtxos.push(utxo);
     selectedTokenAtoms += atoms;
-    if (selectedTokenAtoms >= params.amountRmzAtoms) break;
+    if (selectedTokenAtoms >= amountAtoms) break;
   }
-  if (selectedTokenAtoms < params.amountRmzAtoms) {
+  if (selectedTokenAtoms < amountAtoms) {
     throw new Error("Insufficient RMZ token balance for payout.");
   }
-  const tokenChangeAtoms = selectedTokenAtoms - params.amountRmzAtoms;
+  const tokenChangeAtoms = selectedTokenAtoms - amountAtoms;
 
   const sendAtomsArray =
     tokenChangeAtoms > 0n
-      ? [params.amountRmzAtoms, tokenChangeAtoms]
-      : [params.amountRmzAtoms];
+      ? [amountAtoms, tokenChangeAtoms]
+      : [amountAtoms];
   const slpScript = slpSend(tokenId, tokenTypeNumber, sendAtomsArray);
 
   const outputs: TxBuilderOutput[] = [
@@ -172,20 +171,18 @@ export const sendRmz = async (params: RmzSendParams): Promise<string> => {
     { sats: DUST_SATS, script: recipientScript },
   ];
   if (tokenChangeAtoms > 0n) {
-    outputs.push({ sats: DUST_SATS, script: senderScript });
+    outputs.push({ sats: DUST_SATS, script: changeScript });
   }
-  outputs.push(senderScript);
+  outputs.push(changeScript);
 
-  const signatory = P2PKHSignatory(sk, pk, ALL_BIP143);
-  const toInput = (utxo: {
-    outpoint: { txid: string; outIdx: number };
-    sats: bigint;
-  }) => ({
+  // Inputs may come from different derived addresses; each is signed with
+  // its own key.
+  const toInput = (utxo: RewardWalletUtxo) => ({
     input: {
       prevOut: { txid: utxo.outpoint.txid, outIdx: utxo.outpoint.outIdx },
-      signData: { sats: BigInt(utxo.sats), outputScript: senderScript },
+      signData: { sats: BigInt(utxo.sats), outputScript: utxo.key.script },
     },
-    signatory,
+    signatory: utxo.key.signatory,
   });
 
   const xecUtxos = utxos
@@ -245,13 +242,40 @@ export const sendRmz = async (params: RmzSendParams): Promise<string> => {
       `inputs=${tx.inputs.length}`,
       `outputs=${tx.outputs.length}`,
       `feeSats=${feeSats}`,
-      `tokenAmount=${params.amountRmzAtoms}`,
+      `tokenAmount=${amountAtoms}`,
       `tokenChange=${tokenChangeAtoms}`,
     ].join(" ")
   );
 
-  const result = await chronik.broadcastTx(tx.ser());
-  return result.txid;
+  const rawTx = tx.ser();
+  return {
+    txid: computeTxid(rawTx),
+    rawTx: Buffer.from(rawTx).toString("hex"),
+  };
 };
 
-export default sendRmz;
+// The txid of a mined transaction spending one of the inputs of `rawTx`, if
+// any. Once one exists the signed payout can never confirm.
+export const findMinedConflict = async (rawTx: string, txid: string) => {
+  const chronik = getChronik();
+  for (const input of Tx.deser(fromHex(rawTx)).inputs) {
+    const { prevOut } = input;
+    const prevTxid =
+      typeof prevOut.txid === "string" ? prevOut.txid : toHexRev(prevOut.txid);
+    const prevTx = await chronik.tx(prevTxid);
+    const spentBy = prevTx.outputs[prevOut.outIdx]?.spentBy;
+    if (!spentBy || spentBy.txid === txid) continue;
+    const spender = await chronik.tx(spentBy.txid);
+    if (spender.block) {
+      return spender.txid;
+    }
+  }
+  return null;
+};
+
+// Safe to call again with the same bytes: a transaction can only be mined
+// once.
+export const broadcastRmzTx = async (rawTx: string): Promise<string> => {
+  const result = await getChronik().broadcastTx(rawTx);
+  return result.txid;
+};
@@ -1,24 +1,68 @@
-import crypto from "crypto";
 import { elizaLogger } from "@elizaos/core";
 import {
   TriviaRewardsStore,
   getSqliteDb,
-  type TriviaReplyInsert,
-  type TriviaReplyRecord,
+  type TriviaQuestionInput,
 } from "../db/triviaRewards.ts";
+import { exceedsTokenAmount, toDayKey } from "./helpers.ts";
+import { ownsToken } from "./chronik.ts";
 import {
-  deterministicPick,
-  normalizeAnswer,
-  parseTweetForReply,
-  toDayKey,
-} from "./helpers.ts";
-import { getBlockHeight, ownsToken } from "./chronik.ts";
-import sendRmz from "./rmzSend.ts";
-
-const REWARD_RMZ_DEFAULT = 3;
-const TRIVIA_WINDOW_MINUTES_DEFAULT = 10;
-const CLAIM_TTL_MS = 60 * 60 * 1000;
-const CLAIM_LOCK_MS = 15 * 60 * 1000;
+  parseCampaignInput,
+  startCampaignRunner,
+  toCampaignView,
+} from "./campaigns.ts";
+import {
+  cancelTriviaRound,
+  extendTriviaRound,
+  toAdminActionView,
+  updateTriviaAnswers,
+  voidTriviaRound,
+} from "./adminActions.ts";
+import { getDefaultClaimPolicy, resolveClaimPolicy } from "./claimPolicy.ts";
+import { closeTriviaRound, getRuntime } from "./close.ts";
+import { nextCronRun } from "./cron.ts";
+import { REWARD_RMZ_DEFAULT, createTriviaRound } from "./create.ts";
+import { previewTriviaClose } from "./preview.ts";
+import { buildTriviaProof } from "./proof.ts";
+import {
+  isQuestionDifficulty,
+  normalizeCategory,
+  parseQuestionInput,
+  toDraftView,
+  toQuestionView,
+} from "./questionBank.ts";
+import { generateQuestionDrafts, getCharacterTopics } from "./questionDrafts.ts";
+import { startReplyPoller } from "./replyPoller.ts";
+import { startRerollLoop } from "./reroll.ts";
+import { toPublicTrivia } from "./publicView.ts";
+import { startTriviaScheduler } from "./scheduler.ts";
+import {
+  generatePayoutJobId,
+  startPayoutWorker,
+  toPayoutJobView,
+  toPublicPayoutJobView,
+  toTxStatus,
+} from "./payouts.ts";
+import { startPayoutWatcher } from "./payoutWatcher.ts";
+import { isRewardDryRun } from "./rmzSend.ts";
+
+const PUBLIC_LIST_LIMIT_DEFAULT = 50;
+const PUBLIC_LIST_LIMIT_MAX = 200;
+const QUESTION_LIST_LIMIT_DEFAULT = 100;
+const QUESTION_LIST_LIMIT_MAX = 500;
+const DRAFT_COUNT_DEFAULT = 5;
+const DRAFT_COUNT_MAX = 20;
+const TRIVIA_STATUSES = ["open", "closed", "cancelled", "voided"];
+const PAYOUT_JOB_STATUSES = [
+  "pending",
+  "signed",
+  "broadcast",
+  "confirmed",
+  "finalized",
+  "failed",
+  "dropped",
+  "dry_run",
+];
 
 const rateLimitWindowMs = 60 * 1000;
 // In-memory rate limiting is per-process; multiple instances can bypass this.
@@ -46,10 +90,13 @@ const extractBearerToken = (req: any) => {
   return match?.[1] ?? "";
 };
 
-const requireAdmin = (req: any, res: any) => {
+const isAdminRequest = (req: any) => {
   const expected = process.env.TRIVIA_ADMIN_TOKEN;
-  const provided = extractBearerToken(req);
-  if (!expected || provided !== expected) {
+  return Boolean(expected) && extractBearerToken(req) === expected;
+};
+
+const requireAdmin = (req: any, res: any) => {
+  if (!isAdminRequest(req)) {
     elizaLogger.warn("Unauthorized trivia admin request.");
     res.status(401).json({ error: "unauthorized" });
     return false;
@@ -70,78 +117,6 @@ const isValidEcashAddress = (address: string) =>
   address.startsWith("ecash:") &&
   address.length > 12;
 
-const getRuntime = (directClient: any, agentId?: string) => {
-  const agents: Map<string, any> | undefined =
-    directClient?.agents || directClient?.["agents"];
-  if (!agents) return null;
-  if (agentId && agents.has(agentId)) {
-    return agents.get(agentId);
-  }
-  if (agentId) {
-    for (const runtime of agents.values()) {
-      if (
-        runtime?.character?.name &&
-        runtime.character.name.toLowerCase() === agentId.toLowerCase()
-      ) {
-        return runtime;
-      }
-    }
-  }
-  return agents.values().next().value ?? null;
-};
-
-const getTwitterManager = (runtime: any) => {
-  if (!runtime?.clients) return null;
-  return runtime.clients.find(
-    (client: any) => client?.client?.v2 && typeof client?.searchRecent === "function"
-  );
-};
-
-const collectReplies = async (params: {
-  twitterManager: any;
-  tweetId: string;
-  triviaId: string;
-  correctAnswers: string[];
-  createdAt: number;
-  closesAt: number;
-}) => {
-  const { twitterManager, tweetId, triviaId, correctAnswers, createdAt, closesAt } =
-    params;
-  const query = `conversation_id:${tweetId}`;
-  const searchResult = await twitterManager.searchRecent(query, 50);
-  const rawTweets = searchResult?.data || [];
-  const replies: TriviaReplyInsert[] = [];
-
-  for (const raw of rawTweets) {
-    const parsed = parseTweetForReply(raw);
-    if (!parsed) continue;
-    if (parsed.inReplyToStatusId && parsed.inReplyToStatusId !== tweetId) {
-      continue;
-    }
-    if (
-      parsed.createdAtMs &&
-      (parsed.createdAtMs < createdAt || parsed.createdAtMs > closesAt)
-    ) {
-      continue;
-    }
-
-    const normalized = normalizeAnswer(parsed.text);
-    const isCorrect = correctAnswers.includes(normalized) ? 1 : 0;
-    replies.push({
-      trivia_id: triviaId,
-      tweet_id: parsed.id,
-      twitter_user_id: parsed.twitterUserId,
-      twitter_username: parsed.twitterUsername,
-      reply_text: parsed.text,
-      normalized_text: normalized,
-      is_correct: isCorrect,
-      created_at: parsed.createdAtMs ?? Date.now(),
-    });
-  }
-
-  return replies;
-};
-
 export const registerTriviaRoutes = (params: {
   app: any;
   dbAdapter: any;
@@ -149,61 +124,317 @@ export const registerTriviaRoutes = (params: {
 }) => {
   const { app, dbAdapter, directClient } = params;
   const store = new TriviaRewardsStore(getSqliteDb(dbAdapter));
+  startTriviaScheduler({ store, directClient });
+  startReplyPoller({ store, directClient });
+  startCampaignRunner({ store, directClient });
+  startRerollLoop({ store, directClient });
+  const payoutWorker = startPayoutWorker({ store });
+  startPayoutWatcher({ store });
+
+  // Registered before /api/trivia/:triviaId so "questions" is not read as an id.
+  app.post("/api/trivia/questions", (req: any, res: any) => {
+    if (!requireAdmin(req, res)) return;
+    // Accepts a single question or { questions: [...] } to preload a batch.
+    const batch = Array.isArray(req.body?.questions)
+      ? req.body.questions
+      : [req.body];
+    const inputs: TriviaQuestionInput[] = [];
+    for (const [index, body] of batch.entries()) {
+      const { input, error } = parseQuestionInput(body);
+      if (!input) {
+        res.status(400).json({ error, index });
+        return;
+      }
+      inputs.push(input);
+    }
+    const createdAt = Date.now();
+    const questions = inputs.map((input) =>
+      store.getQuestion(store.createQuestion({ ...input, createdAt }))
+    );
+    elizaLogger.log(`Trivia questions added: ${questions.length}`);
+    res.json({ questions: questions.map(toQuestionView) });
+  });
 
-  app.post("/api/trivia/create", (req: any, res: any) => {
+  app.get("/api/trivia/questions", (req: any, res: any) => {
     if (!requireAdmin(req, res)) return;
-    const { triviaId, tweetId, correctAnswers, windowMinutes, rewardRmz } =
-      req.body || {};
+    const { category, difficulty, language, unused } = req.query || {};
+    if (difficulty !== undefined && !isQuestionDifficulty(difficulty)) {
+      res.status(400).json({ error: "difficulty must be easy, medium or hard." });
+      return;
+    }
+    const limit = Math.min(
+      Math.max(Number(req.query?.limit) || QUESTION_LIST_LIMIT_DEFAULT, 1),
+      QUESTION_LIST_LIMIT_MAX
+    );
+    const questions = store.listQuestions({
+      category: category ? normalizeCategory(category) : undefined,
+      difficulty,
+      language: language === "es" || language === "en" ? language : undefined,
+      unusedOnly: unused === "true",
+      limit,
+    });
+    res.json({ questions: questions.map(toQuestionView) });
+  });
 
-    if (!triviaId || !tweetId || !Array.isArray(correctAnswers)) {
-      res.status(400).json({ error: "Missing triviaId, tweetId, or answers." });
+  app.get("/api/trivia/questions/:questionId", (req: any, res: any) => {
+    if (!requireAdmin(req, res)) return;
+    const question = store.getQuestion(Number(req.params?.questionId));
+    if (!question) {
+      res.status(404).json({ error: "Question not found." });
       return;
     }
+    res.json(toQuestionView(question));
+  });
 
-    const normalizedAnswers = correctAnswers
-      .map((answer: string) => normalizeAnswer(answer))
-      .filter(Boolean);
-    if (!normalizedAnswers.length) {
-      res.status(400).json({ error: "No valid answers provided." });
+  app.put("/api/trivia/questions/:questionId", (req: any, res: any) => {
+    if (!requireAdmin(req, res)) return;
+    const questionId = Number(req.params?.questionId);
+    const existing = store.getQuestion(questionId);
+    if (!existing) {
+      res.status(404).json({ error: "Question not found." });
       return;
     }
+    const { input, error } = parseQuestionInput(req.body, existing);
+    if (!input) {
+      res.status(400).json({ error });
+      return;
+    }
+    store.updateQuestion(questionId, { ...input, updatedAt: Date.now() });
+    res.json(toQuestionView(store.getQuestion(questionId)));
+  });
 
-    const existing = store.getTrivia(triviaId);
-    if (existing) {
-      res.status(409).json({ error: "Trivia already exists." });
+  app.delete("/api/trivia/questions/:questionId", (req: any, res: any) => {
+    if (!requireAdmin(req, res)) return;
+    const questionId = Number(req.params?.questionId);
+    if (!store.deleteQuestion(questionId)) {
+      res.status(404).json({ error: "Question not found." });
       return;
     }
+    elizaLogger.log(`Trivia question deleted: ${questionId}`);
+    res.json({ questionId, deleted: true });
+  });
 
-    const createdAt = Date.now();
-    const windowMinutesFinal =
-      Number(windowMinutes) || TRIVIA_WINDOW_MINUTES_DEFAULT;
-    const rewardFinal = Number(rewardRmz) || REWARD_RMZ_DEFAULT;
-    const closesAt = createdAt + windowMinutesFinal * 60 * 1000;
-
-    store.createTrivia({
-      triviaId,
-      tweetId,
-      correctAnswers: normalizedAnswers,
-      windowMinutes: windowMinutesFinal,
-      rewardRmz: rewardFinal,
-      createdAt,
-      closesAt,
-    });
+  app.post("/api/trivia/drafts/generate", async (req: any, res: any) => {
+    try {
+      if (!requireAdmin(req, res)) return;
+      const { count, topic, language, difficulty, agentId } = req.body || {};
+      const draftCount = Math.trunc(Number(count ?? DRAFT_COUNT_DEFAULT));
+      if (!(draftCount >= 1 && draftCount <= DRAFT_COUNT_MAX)) {
+        res
+          .status(400)
+          .json({ error: `count must be between 1 and ${DRAFT_COUNT_MAX}.` });
+        return;
+      }
+      if (difficulty !== undefined && !isQuestionDifficulty(difficulty)) {
+        res.status(400).json({ error: "difficulty must be easy, medium or hard." });
+        return;
+      }
+      const runtime = getRuntime(directClient, agentId);
+      if (!runtime) {
+        res.status(500).json({ error: "Runtime not available." });
+        return;
+      }
+      const characterTopics = getCharacterTopics(runtime);
+      const topics =
+        typeof topic === "string" && topic.trim()
+          ? [topic.trim()]
+          : characterTopics;
+      if (!topics.length) {
+        res.status(400).json({ error: "No topic given and the character has none." });
+        return;
+      }
+
+      const drafts = await generateQuestionDrafts({
+        store,
+        runtime,
+        count: draftCount,
+        topics,
+        language: language === "en" ? "en" : "es",
+        difficulty,
+      });
+      const draftIds = store.addQuestionDrafts(
+        drafts.map((draft) => ({
+          ...draft,
+          agentId: runtime.agentId ?? agentId ?? null,
+        })),
+        Date.now()
+      );
+      elizaLogger.log(
+        `Trivia drafts generated: ${draftIds.length}/${draftCount} kept`
+      );
+      res.json({
+        requested: draftCount,
+        drafts: draftIds.map((draftId) =>
+          toDraftView(store.getQuestionDraft(draftId))
+        ),
+      });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.stack || error.message : String(error);
+      elizaLogger.error(`Trivia draft generation failed: ${errorMessage}`);
+      res.status(500).json({ error: "Failed to generate drafts." });
+    }
+  });
 
-    elizaLogger.log(`Trivia created: ${triviaId} for tweet ${tweetId}`);
+  app.get("/api/trivia/drafts", (req: any, res: any) => {
+    if (!requireAdmin(req, res)) return;
+    const status = req.query?.status ?? "pending";
+    if (status !== "pending" && status !== "approved" && status !== "rejected") {
+      res
+        .status(400)
+        .json({ error: "status must be pending, approved or rejected." });
+      return;
+    }
+    const limit = Math.min(
+      Math.max(Number(req.query?.limit) || QUESTION_LIST_LIMIT_DEFAULT, 1),
+      QUESTION_LIST_LIMIT_MAX
+    );
+    const drafts = store.listQuestionDrafts({ status, limit });
+    res.json({ drafts: drafts.map(toDraftView) });
+  });
+
+  // Approval is the only way a draft reaches the bank; the body may fix any
+  // field before it does.
+  app.post("/api/trivia/drafts/:draftId/approve", (req: any, res: any) => {
+    if (!requireAdmin(req, res)) return;
+    const draftId = Number(req.params?.draftId);
+    const draft = store.getQuestionDraft(draftId);
+    if (!draft) {
+      res.status(404).json({ error: "Draft not found." });
+      return;
+    }
+    if (draft.status !== "pending") {
+      res.status(409).json({ error: `Draft already ${draft.status}.` });
+      return;
+    }
+    const { input, error } = parseQuestionInput(req.body, draft);
+    if (!input) {
+      res.status(400).json({ error });
+      return;
+    }
+    const questionId = store.approveQuestionDraft({
+      draftId,
+      question: input,
+      reviewedAt: Date.now(),
+    });
+    if (questionId === null) {
+      res.status(409).json({ error: "Draft already reviewed." });
+      return;
+    }
+    elizaLogger.log(`Trivia draft approved: ${draftId} -> question ${questionId}`);
     res.json({
-      triviaId,
-      tweetId,
-      windowMinutes: windowMinutesFinal,
-      rewardRmz: rewardFinal,
-      closesAt,
+      draft: toDraftView(store.getQuestionDraft(draftId)),
+      question: toQuestionView(store.getQuestion(questionId)),
+    });
+  });
+
+  app.post("/api/trivia/drafts/:draftId/reject", (req: any, res: any) => {
+    if (!requireAdmin(req, res)) return;
+    const draftId = Number(req.params?.draftId);
+    const note =
+      typeof req.body?.note === "string" && req.body.note.trim()
+        ? req.body.note.trim()
+        : null;
+    const rejected = store.rejectQuestionDraft({
+      draftId,
+      note,
+      reviewedAt: Date.now(),
     });
+    if (!rejected) {
+      const draft = store.getQuestionDraft(draftId);
+      res
+        .status(draft ? 409 : 404)
+        .json({ error: draft ? `Draft already ${draft.status}.` : "Draft not found." });
+      return;
+    }
+    elizaLogger.log(`Trivia draft rejected: ${draftId}`);
+    res.json({ draft: toDraftView(store.getQuestionDraft(draftId)) });
+  });
+
+  app.post("/api/trivia/campaigns", (req: any, res: any) => {
+    if (!requireAdmin(req, res)) return;
+    const { input, error } = parseCampaignInput(req.body, Date.now());
+    if (!input) {
+      res.status(400).json({ error });
+      return;
+    }
+    if (store.getCampaign(input.campaignId)) {
+      res.status(409).json({ error: "Campaign already exists." });
+      return;
+    }
+    store.createCampaign(input);
+    elizaLogger.log(
+      `Trivia campaign created: ${input.campaignId} (${input.schedule})`
+    );
+    res.json(toCampaignView(store.getCampaign(input.campaignId)));
+  });
+
+  app.get("/api/trivia/campaigns", (req: any, res: any) => {
+    if (!requireAdmin(req, res)) return;
+    res.json({ campaigns: store.listCampaigns().map(toCampaignView) });
+  });
+
+  app.get("/api/trivia/campaigns/:campaignId", (req: any, res: any) => {
+    if (!requireAdmin(req, res)) return;
+    const campaign = store.getCampaign(String(req.params?.campaignId || ""));
+    if (!campaign) {
+      res.status(404).json({ error: "Campaign not found." });
+      return;
+    }
+    res.json(toCampaignView(campaign));
+  });
+
+  // Pausing clears the next run; resuming schedules it from now, so runs
+  // missed while paused are not replayed.
+  app.post(
+    "/api/trivia/campaigns/:campaignId/:action",
+    (req: any, res: any) => {
+      if (!requireAdmin(req, res)) return;
+      const action = req.params?.action;
+      if (action !== "pause" && action !== "resume") {
+        res.status(404).json({ error: "Unknown campaign action." });
+        return;
+      }
+      const campaign = store.getCampaign(String(req.params?.campaignId || ""));
+      if (!campaign) {
+        res.status(404).json({ error: "Campaign not found." });
+        return;
+      }
+      const now = Date.now();
+      store.setCampaignStatus({
+        campaignId: campaign.campaign_id,
+        status: action === "pause" ? "paused" : "active",
+        nextRunAt:
+          action === "pause" ? null : nextCronRun(campaign.schedule, now),
+        updatedAt: now,
+      });
+      elizaLogger.log(`Trivia campaign ${action}d: ${campaign.campaign_id}`);
+      res.json(toCampaignView(store.getCampaign(campaign.campaign_id)));
+    }
+  );
+
+  app.post("/api/trivia/create", async (req: any, res: any) => {
+    try {
+      if (!requireAdmin(req, res)) return;
+      const outcome = await createTriviaRound({
+        store,
+        directClient,
+        request: req.body || {},
+      });
+      res.status(outcome.status).json(outcome.body);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.stack || error.message : String(error);
+      elizaLogger.error(`Trivia create failed: ${errorMessage}`);
+      res.status(500).json({ error: "Failed to create trivia." });
+    }
   });
 
   app.post("/api/trivia/close", async (req: any, res: any) => {
     try {
       if (!requireAdmin(req, res)) return;
-      const { triviaId, agentId } = req.body || {};
+      const { triviaId, agentId, announce, announceReplyTo, skipReview } =
+        req.body || {};
       if (!triviaId) {
         res.status(400).json({ error: "Missing triviaId." });
         return;
@@ -214,114 +445,279 @@ export const registerTriviaRoutes = (params: {
         res.status(404).json({ error: "Trivia not found." });
         return;
       }
-      if (trivia.status === "closed") {
-        res.status(409).json({ error: "Trivia already closed." });
+
+      const outcome = await closeTriviaRound({
+        store,
+        directClient,
+        trivia,
+        agentId,
+        announce: typeof announce === "boolean" ? announce : undefined,
+        announceReplyTo,
+        skipReview: skipReview === true,
+      });
+      res.status(outcome.status).json(outcome.body);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.stack || error.message : String(error);
+      elizaLogger.error(`Trivia close failed: ${errorMessage}`);
+      res.status(500).json({ error: "Failed to close trivia." });
+    }
+  });
+
+  app.post(
+    "/api/trivia/:triviaId/preview-close",
+    async (req: any, res: any) => {
+      try {
+        if (!requireAdmin(req, res)) return;
+        const trivia = store.getTrivia(String(req.params?.triviaId || ""));
+        if (!trivia) {
+          res.status(404).json({ error: "Trivia not found." });
+          return;
+        }
+        const outcome = await previewTriviaClose({
+          store,
+          directClient,
+          trivia,
+          agentId: req.body?.agentId,
+        });
+        res.status(outcome.status).json(outcome.body);
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.stack || error.message : String(error);
+        elizaLogger.error(`Trivia close preview failed: ${errorMessage}`);
+        res.status(500).json({ error: "Failed to preview trivia close." });
+      }
+    }
+  );
+
+  app.get("/api/trivia/:triviaId/replies", (req: any, res: any) => {
+    if (!requireAdmin(req, res)) return;
+    const trivia = store.getTrivia(String(req.params?.triviaId || ""));
+    if (!trivia) {
+      res.status(404).json({ error: "Trivia not found." });
+      return;
+    }
+    res.json({
+      triviaId: trivia.trivia_id,
+      gradingMode: trivia.grading_mode,
+      gradedAt: trivia.graded_at,
+      replies: store.listReplies(trivia.trivia_id).map((reply) => ({
+        tweetId: reply.tweet_id,
+        twitterUserId: reply.twitter_user_id,
+        twitterUsername: reply.twitter_username,
+        text: reply.reply_text,
+        isCorrect: Boolean(reply.is_correct),
+        gradingSource: reply.grading_source,
+        llmVerdict:
+          reply.llm_verdict === null ? null : Boolean(reply.llm_verdict),
+        llmOutput: reply.llm_output,
+        adminOverride:
+          reply.admin_override === null ? null : Boolean(reply.admin_override),
+        createdAt: reply.created_at,
+      })),
+    });
+  });
+
+  app.post(
+    "/api/trivia/:triviaId/replies/:tweetId/override",
+    (req: any, res: any) => {
+      if (!requireAdmin(req, res)) return;
+      const trivia = store.getTrivia(String(req.params?.triviaId || ""));
+      if (!trivia) {
+        res.status(404).json({ error: "Trivia not found." });
         return;
       }
-      const now = Date.now();
-      if (now < trivia.closes_at) {
-        res.status(400).json({ error: "Trivia window still open." });
+      if (trivia.grading_mode !== "llm") {
+        res.status(400).json({ error: "Trivia is not LLM-graded." });
         return;
       }
-
-      const runtime = getRuntime(directClient, agentId);
-      if (!runtime) {
-        res.status(500).json({ error: "Runtime not available." });
+      if (trivia.status !== "open") {
+        res.status(409).json({ error: `Trivia is ${trivia.status}.` });
         return;
       }
-      const twitterManager = getTwitterManager(runtime);
-      if (!twitterManager) {
-        res.status(500).json({ error: "Twitter client not available." });
+      const { isCorrect } = req.body || {};
+      if (typeof isCorrect !== "boolean" && isCorrect !== null) {
+        res.status(400).json({ error: "isCorrect must be true, false or null." });
         return;
       }
-
-      const correctAnswers = JSON.parse(trivia.correct_answers) as string[];
-      const replies = await collectReplies({
-        twitterManager,
-        tweetId: trivia.tweet_id,
+      const tweetId = String(req.params?.tweetId || "");
+      const updated = store.setAdminOverride({
         triviaId: trivia.trivia_id,
-        correctAnswers,
-        createdAt: trivia.created_at,
-        closesAt: trivia.closes_at,
+        tweetId,
+        isCorrect,
       });
-      store.addReplies(replies);
-
-      const correctReplies = store.listCorrectReplies(trivia.trivia_id);
-      const uniqueCorrect = new Map<string, TriviaReplyRecord>();
-      for (const reply of correctReplies) {
-        if (!uniqueCorrect.has(reply.twitter_user_id)) {
-          uniqueCorrect.set(reply.twitter_user_id, reply);
-        }
-      }
-      const salt = process.env.TRIVIA_SALT;
-      if (!salt) {
-        res.status(500).json({ error: "TRIVIA_SALT not configured." });
+      if (!updated) {
+        res.status(404).json({ error: "Reply not found." });
         return;
       }
+      elizaLogger.log(
+        `Trivia reply override: ${trivia.trivia_id} reply ${tweetId} -> ${isCorrect}`
+      );
+      const reply = store.getReply(trivia.trivia_id, tweetId);
+      res.json({
+        triviaId: trivia.trivia_id,
+        tweetId,
+        isCorrect: Boolean(reply?.is_correct),
+        gradingSource: reply?.grading_source ?? null,
+      });
+    }
+  );
 
-      const blockHeight = await getBlockHeight();
-      const participantIds = Array.from(uniqueCorrect.keys()).sort();
-      const seed = `${salt}:${trivia.trivia_id}:${trivia.tweet_id}:${participantIds.join(
-        ","
-      )}`;
-
-      if (!participantIds.length) {
-        store.closeTrivia({
-          triviaId: trivia.trivia_id,
-          blockHeight,
-          seed,
-          winnerTwitterUserId: null,
-          winnerTweetId: null,
-          claimCode: null,
-          claimExpiresAt: null,
-        });
-        elizaLogger.log(`Trivia closed without winners: ${trivia.trivia_id}`);
-        res.json({
-          triviaId: trivia.trivia_id,
-          seed,
-          status: "no_correct_answers",
-          winner: null,
-        });
+  // Cancel, void, extend and answer edits. Each one requires `actor` and
+  // `reason` in the body and is recorded in trivia_admin_actions.
+  const adminActionRoutes = [
+    { path: "cancel", run: cancelTriviaRound },
+    { path: "void", run: voidTriviaRound },
+    { path: "extend", run: extendTriviaRound },
+    { path: "answers", run: updateTriviaAnswers },
+  ];
+  for (const { path, run } of adminActionRoutes) {
+    app.post(`/api/trivia/:triviaId/${path}`, async (req: any, res: any) => {
+      if (!requireAdmin(req, res)) return;
+      const trivia = store.getTrivia(String(req.params?.triviaId || ""));
+      if (!trivia) {
+        res.status(404).json({ error: "Trivia not found." });
         return;
       }
-
-      const winnerIndex = deterministicPick(seed, participantIds.length);
-      const winnerId = participantIds[winnerIndex];
-      const winner = uniqueCorrect.get(winnerId);
-      if (!winner) {
-        res.status(500).json({ error: "Failed to pick winner." });
-        return;
+      try {
+        const outcome = await run({ store, trivia, request: req.body || {} });
+        res.status(outcome.status).json(outcome.body);
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.stack || error.message : String(error);
+        elizaLogger.error(`Trivia ${path} failed: ${errorMessage}`);
+        res.status(500).json({ error: "Admin action failed." });
       }
-      const claimCode = crypto.randomBytes(16).toString("hex");
-      const claimExpiresAt = Date.now() + CLAIM_TTL_MS;
+    });
+  }
 
-      store.closeTrivia({
-        triviaId: trivia.trivia_id,
-        blockHeight,
-        seed,
-        winnerTwitterUserId: winner.twitter_user_id,
-        winnerTweetId: winner.tweet_id,
-        claimCode,
-        claimExpiresAt,
+  // Claim codes of the current winners, including the ones issued by
+  // rerolls, plus the expired winners they replaced.
+  app.get("/api/trivia/:triviaId/winners", (req: any, res: any) => {
+    if (!requireAdmin(req, res)) return;
+    const trivia = store.getTrivia(String(req.params?.triviaId || ""));
+    if (!trivia) {
+      res.status(404).json({ error: "Trivia not found." });
+      return;
+    }
+    res.json({
+      triviaId: trivia.trivia_id,
+      winners: store.listWinners(trivia.trivia_id).map((winner) => ({
+        rank: winner.rank,
+        twitterUserId: winner.twitter_user_id,
+        twitterUsername: winner.twitter_username,
+        tweetId: winner.tweet_id,
+        rewardRmz: winner.reward_rmz,
+        claimCode: winner.claim_code,
+        claimExpiresAt: winner.claim_expires_at,
+        usedAt: winner.used_at,
+        txid: winner.txid,
+        voidedAt: winner.voided_at,
+        expiredAt: winner.expired_at,
+      })),
+      rerolled: store.listRerolledWinners(trivia.trivia_id).map((entry) => ({
+        rank: entry.rank,
+        twitterUserId: entry.twitter_user_id,
+        twitterUsername: entry.twitter_username,
+        tweetId: entry.tweet_id,
+        rewardRmz: entry.reward_rmz,
+        claimExpiresAt: entry.claim_expires_at,
+        rerolledAt: entry.rerolled_at,
+      })),
+    });
+  });
+
+  app.get("/api/trivia/:triviaId/actions", (req: any, res: any) => {
+    if (!requireAdmin(req, res)) return;
+    const trivia = store.getTrivia(String(req.params?.triviaId || ""));
+    if (!trivia) {
+      res.status(404).json({ error: "Trivia not found." });
+      return;
+    }
+    res.json({
+      triviaId: trivia.trivia_id,
+      status: trivia.status,
+      actions: store.listAdminActions(trivia.trivia_id).map(toAdminActionView),
+    });
+  });
+
+  app.get("/api/trivia", (req: any, res: any) => {
+    const status = req.query?.status;
+    if (status !== undefined && !TRIVIA_STATUSES.includes(status)) {
+      res.status(400).json({
+        error: "status must be open, closed, cancelled or voided.",
       });
+      return;
+    }
+    const limit = Math.min(
+      Math.max(Number(req.query?.limit) || PUBLIC_LIST_LIMIT_DEFAULT, 1),
+      PUBLIC_LIST_LIMIT_MAX
+    );
+    const trivias = store.listTrivias({ status, limit });
+    res.json({
+      trivias: trivias.map((trivia) => toPublicTrivia(store, trivia)),
+    });
+  });
 
-      elizaLogger.log(`Trivia closed: ${trivia.trivia_id} winner ${winner.twitter_user_id}`);
-      res.json({
-        triviaId: trivia.trivia_id,
-        seed,
-        winner: {
-          twitterUserId: winner.twitter_user_id,
-          tweetId: winner.tweet_id,
-        },
-        claimCode,
-        claimExpiresAt,
+  app.get("/api/trivia/:triviaId", (req: any, res: any) => {
+    const trivia = store.getTrivia(String(req.params?.triviaId || ""));
+    if (!trivia) {
+      res.status(404).json({ error: "Trivia not found." });
+      return;
+    }
+    res.json(toPublicTrivia(store, trivia));
+  });
+
+  app.get("/api/trivia/:triviaId/proof", (req: any, res: any) => {
+    const trivia = store.getTrivia(String(req.params?.triviaId || ""));
+    if (!trivia) {
+      res.status(404).json({ error: "Trivia not found." });
+      return;
+    }
+    const { proof, error } = buildTriviaProof(store, trivia);
+    if (!proof) {
+      res.status(409).json({ error });
+      return;
+    }
+    res.json(proof);
+  });
+
+  // Admins look here for dropped payouts (their claims are open again) and
+  // for signed ones stuck before the broadcast.
+  app.get("/api/payouts", (req: any, res: any) => {
+    if (!requireAdmin(req, res)) return;
+    const status = req.query?.status;
+    if (status !== undefined && !PAYOUT_JOB_STATUSES.includes(status)) {
+      res.status(400).json({
+        error: `status must be one of ${PAYOUT_JOB_STATUSES.join(", ")}.`,
       });
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.stack || error.message : String(error);
-      elizaLogger.error(`Trivia close failed: ${errorMessage}`);
-      res.status(500).json({ error: "Failed to close trivia." });
+      return;
+    }
+    const limit = Math.min(
+      Math.max(Number(req.query?.limit) || QUESTION_LIST_LIMIT_DEFAULT, 1),
+      QUESTION_LIST_LIMIT_MAX
+    );
+    const jobs = store.listPayoutJobs({ status, limit });
+    res.json({
+      payouts: jobs.map((job) => ({
+        ...toPayoutJobView(job),
+        winnerId: job.winner_id,
+        twitterUserId: job.twitter_user_id,
+      })),
+    });
+  });
+
+  app.get("/api/payouts/:jobId", (req: any, res: any) => {
+    const job = store.getPayoutJob(String(req.params?.jobId || ""));
+    if (!job) {
+      res.status(404).json({ error: "Payout job not found." });
+      return;
     }
+    // The full view carries the payout address and, for dry runs, the
+    // signed transaction, so it is for admins only.
+    res.json(
+      isAdminRequest(req) ? toPayoutJobView(job) : toPublicPayoutJobView(job)
+    );
   });
 
   app.post("/api/claim", async (req: any, res: any) => {
@@ -358,12 +754,17 @@ export const registerTriviaRoutes = (params: {
       }
 
       const claim = store.getClaimByCode(claimCode);
+      if (!claim && store.getRerolledClaimByCode(claimCode)) {
+        res.status(410).json({ error: "Claim expired." });
+        return;
+      }
       if (!claim) {
+        const defaultPolicy = getDefaultClaimPolicy();
         const lock = store.recordInvalidClaimCodeAttempt({
           claimCode,
           now,
-          maxAttempts: 3,
-          lockMs: CLAIM_LOCK_MS,
+          maxAttempts: defaultPolicy.maxAttempts,
+          lockMs: defaultPolicy.claimLockMs,
         });
         if (lock.lockExpiresAt && now < lock.lockExpiresAt) {
           res.status(429).json({ error: "rate_limited" });
@@ -373,6 +774,10 @@ export const registerTriviaRoutes = (params: {
         return;
       }
       elizaLogger.log(`Claim request: ${claim.trivia_id} address ${address}`);
+      const trivia = store.getTrivia(claim.trivia_id);
+      const claimPolicy = trivia
+        ? resolveClaimPolicy(trivia)
+        : getDefaultClaimPolicy();
       if (
         claim.lock_expires_at &&
         now < Number(claim.lock_expires_at)
@@ -384,29 +789,43 @@ export const registerTriviaRoutes = (params: {
         claim.lock_expires_at &&
         now >= Number(claim.lock_expires_at)
       ) {
-        store.clearClaimLock(claim.trivia_id);
+        store.clearClaimLock(claim.id);
       }
-      if (
-        claim.winner_twitter_user_id &&
-        !allowRateLimit(`user:${claim.winner_twitter_user_id}`, claimRateLimit)
-      ) {
+      if (!allowRateLimit(`user:${claim.twitter_user_id}`, claimRateLimit)) {
         res.status(429).json({ error: "rate_limited" });
         return;
       }
       if (claim.used_at) {
+        const paidJob = store.getLivePayoutJob(claim.id);
         res.json({
           triviaId: claim.trivia_id,
           txid: claim.txid,
+          txStatus: toTxStatus(paidJob),
+          dryRun: Boolean(paidJob?.dry_run),
           status: "already_paid",
         });
         return;
       }
+      if (claim.voided_at) {
+        res.status(410).json({ error: "Claim voided." });
+        return;
+      }
+      // Retries of a queued claim get the job back instead of a second payout.
+      const liveJob = store.getLivePayoutJob(claim.id);
+      if (liveJob) {
+        res.status(202).json({
+          triviaId: claim.trivia_id,
+          jobId: liveJob.job_id,
+          status: liveJob.status,
+        });
+        return;
+      }
       if (!isValidEcashAddress(address)) {
         const lock = store.recordInvalidAttempt({
-          triviaId: claim.trivia_id,
+          winnerId: claim.id,
           now,
-          maxAttempts: 3,
-          lockMs: CLAIM_LOCK_MS,
+          maxAttempts: claimPolicy.maxAttempts,
+          lockMs: claimPolicy.claimLockMs,
         });
         if (lock.lockExpiresAt && now < lock.lockExpiresAt) {
           res.status(429).json({ error: "rate_limited" });
@@ -417,10 +836,10 @@ export const registerTriviaRoutes = (params: {
       }
       if (claim.claim_expires_at && now > claim.claim_expires_at) {
         const lock = store.recordInvalidAttempt({
-          triviaId: claim.trivia_id,
+          winnerId: claim.id,
           now,
-          maxAttempts: 3,
-          lockMs: CLAIM_LOCK_MS,
+          maxAttempts: claimPolicy.maxAttempts,
+          lockMs: claimPolicy.claimLockMs,
         });
         if (lock.lockExpiresAt && now < lock.lockExpiresAt) {
           res.status(429).json({ error: "rate_limited" });
@@ -429,12 +848,24 @@ export const registerTriviaRoutes = (params: {
         res.status(410).json({ error: "Claim expired." });
         return;
       }
-      if (!claim.winner_twitter_user_id) {
-        res.status(400).json({ error: "Claim not eligible." });
+      // Weighted tickets were counted on the address linked in the reply, so
+      // the prize can only be paid there.
+      const ticket = store.getTicket(claim.trivia_id, claim.twitter_user_id);
+      if (ticket?.address && ticket.address !== address.toLowerCase()) {
+        const lock = store.recordInvalidAttempt({
+          winnerId: claim.id,
+          now,
+          maxAttempts: claimPolicy.maxAttempts,
+          lockMs: claimPolicy.claimLockMs,
+        });
+        if (lock.lockExpiresAt && now < lock.lockExpiresAt) {
+          res.status(429).json({ error: "rate_limited" });
+          return;
+        }
+        res.status(403).json({ error: "address_mismatch" });
         return;
       }
-
-      const gatingTokenId = process.env.RMZSTATE_TOKEN_ID;
+      const { gatingTokenId } = claimPolicy;
       if (!gatingTokenId) {
         res.status(500).json({ error: "RMZSTATE_TOKEN_ID not configured." });
         return;
@@ -443,10 +874,10 @@ export const registerTriviaRoutes = (params: {
       const hasGate = await ownsToken(address, gatingTokenId);
       if (!hasGate) {
         const lock = store.recordInvalidAttempt({
-          triviaId: claim.trivia_id,
+          winnerId: claim.id,
           now,
-          maxAttempts: 3,
-          lockMs: CLAIM_LOCK_MS,
+          maxAttempts: claimPolicy.maxAttempts,
+          lockMs: claimPolicy.claimLockMs,
         });
         elizaLogger.warn(
           `Claim not eligible (missing token): ${claim.trivia_id} address ${address}`
@@ -459,9 +890,10 @@ export const registerTriviaRoutes = (params: {
         return;
       }
 
+      // Rewards and caps are both in RMZ; atoms only exist in the tx.
       const rewardRmz =
         Number.isFinite(claim.reward_rmz) && claim.reward_rmz > 0
-          ? Math.trunc(claim.reward_rmz)
+          ? claim.reward_rmz
           : REWARD_RMZ_DEFAULT;
       const dayKey = toDayKey(now);
       const dailyCap = Number(process.env.DAILY_CAP_RMZ || 50);
@@ -470,91 +902,87 @@ export const registerTriviaRoutes = (params: {
         process.env.MAX_RMZ_PER_USER_PER_DAY || 3
       );
 
-      const spendSoFar = store.getDailySpend(dayKey);
-      if (spendSoFar + rewardRmz > dailyCap) {
+      // Payouts still in the queue count as spent.
+      const queuedTotals = store.getQueuedPayoutTotals({ dayKey, address });
+      const spendSoFar = store.getDailySpend(dayKey) + queuedTotals.totalRmz;
+      if (exceedsTokenAmount(spendSoFar + rewardRmz, dailyCap)) {
         elizaLogger.warn(`Daily cap reached for ${claim.trivia_id}`);
         res.status(429).json({ error: "daily_cap_reached" });
         return;
       }
 
       const userTotals = store.getUserDayTotals(address, dayKey);
-      if (userTotals.winCount >= maxWinPerUser) {
+      if (userTotals.winCount + queuedTotals.addressCount >= maxWinPerUser) {
         elizaLogger.warn(`User daily win limit reached for ${address}`);
         res.status(429).json({ error: "user_cap_reached" });
         return;
       }
-      if (userTotals.totalRmz + rewardRmz > maxRmzPerAddress) {
+      if (
+        exceedsTokenAmount(
+          userTotals.totalRmz + queuedTotals.addressRmz + rewardRmz,
+          maxRmzPerAddress
+        )
+      ) {
         elizaLogger.warn(`Address daily limit reached for ${address}`);
         res.status(429).json({ error: "user_cap_reached" });
         return;
       }
 
-      const lockAcquired = store.acquireClaimLock({
+      const jobId = generatePayoutJobId();
+      const dryRun = isRewardDryRun();
+      const queued = store.createPayoutJob({
+        jobId,
+        winnerId: claim.id,
         claimCode,
-        lockExpiresAt: now + CLAIM_LOCK_MS,
+        address,
+        rmzAmount: rewardRmz,
+        dayKey,
+        dryRun,
         now,
       });
-      if (!lockAcquired) {
+      if (!queued) {
         const latestClaim = store.getClaimByCode(claimCode);
         if (latestClaim?.used_at) {
+          const paidJob = store.getLivePayoutJob(claim.id);
           res.json({
             triviaId: latestClaim.trivia_id,
             txid: latestClaim.txid,
+            txStatus: toTxStatus(paidJob),
+            dryRun: Boolean(paidJob?.dry_run),
             status: "already_paid",
           });
           return;
         }
-        res.status(429).json({ error: "rate_limited" });
-        return;
-      }
-
-      elizaLogger.log(
-        `Claim payout attempt: ${claim.trivia_id} -> ${address} (${rewardRmz} RMZ)`
-      );
-      let txid: string;
-      try {
-        txid = await sendRmz({
-          toAddress: address,
-          amountRmzAtoms: BigInt(rewardRmz),
-        });
-      } catch (error) {
-        const message = error instanceof Error ? error.message : String(error);
-        elizaLogger.error(`RMZ broadcast failed: ${message}`);
-        store.clearClaimLockByCode(claimCode);
-        res.status(502).json({ error: "broadcast_failed" });
-        return;
-      }
-
-      const recorded = store.recordPayoutAndMarkClaim({
-        claimCode,
-        triviaId: claim.trivia_id,
-        usedAt: now,
-        usedAddress: address,
-        txid,
-        twitterUserId: claim.winner_twitter_user_id,
-        rmzAmount: rewardRmz,
-        dayKey,
-      });
-      if (!recorded) {
-        store.clearClaimLockByCode(claimCode);
-        const latestClaim = store.getClaimByCode(claimCode);
-        res.json({
-          triviaId: latestClaim?.trivia_id ?? claim.trivia_id,
-          txid: latestClaim?.txid ?? txid,
-          status: "already_paid",
-        });
+        // A reroll hands the winner row to someone else; its job is theirs.
+        const racedJob = latestClaim
+          ? store.getLivePayoutJob(claim.id)
+          : undefined;
+        if (racedJob) {
+          res.status(202).json({
+            triviaId: claim.trivia_id,
+            jobId: racedJob.job_id,
+            status: racedJob.status,
+          });
+          return;
+        }
+        res.status(410).json({ error: "Claim expired." });
         return;
       }
 
       elizaLogger.log(
-        `Claim paid: ${claim.trivia_id} -> ${address} txid ${txid}`
+        `Claim payout queued: ${claim.trivia_id} -> ${address} (${rewardRmz} RMZ) job ${jobId}${
+          dryRun ? " (dry run)" : ""
+        }`
       );
-      res.json({
+      payoutWorker.runNow();
+      res.status(202).json({
         triviaId: claim.trivia_id,
+        rank: claim.rank,
         rewardRmz,
         address,
-        txid,
-        status: "paid",
+        jobId,
+        dryRun,
+        status: "queued",
       });
     } catch (error) {
       const errorMessage =
@@ -0,0 +1,97 @@
+import { elizaLogger } from "@elizaos/core";
+import type { TriviaRewardsStore } from "../db/triviaRewards.ts";
+import { closeTriviaRound } from "./close.ts";
+
+const AUTO_CLOSE_INTERVAL_MS_DEFAULT = 30 * 1000;
+
+export const isAutoCloseEnabled = () => process.env.TRIVIA_AUTO_CLOSE !== "false";
+
+// Runs `tick` every `intervalMs`, skipping a beat while the previous tick is
+// still in flight so slow API calls never stack up.
+export const startIntervalLoop = (params: {
+  name: string;
+  intervalMs: number;
+  tick: () => Promise<void>;
+}) => {
+  let running = false;
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await params.tick();
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.stack || error.message : String(error);
+      elizaLogger.error(`${params.name} tick failed: ${errorMessage}`);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(() => {
+    void run();
+  }, params.intervalMs);
+  timer.unref?.();
+  elizaLogger.log(`${params.name} started (every ${params.intervalMs}ms).`);
+
+  return {
+    stop: () => clearInterval(timer),
+    // Runs a tick now instead of waiting for the next beat.
+    runNow: () => {
+      void run();
+    },
+  };
+};
+
+export const runAutoCloseTick = async (params: {
+  store: TriviaRewardsStore;
+  directClient: any;
+  now?: number;
+}) => {
+  const { store, directClient } = params;
+  const dueTrivias = store.listDueTrivias(params.now ?? Date.now());
+  for (const trivia of dueTrivias) {
+    try {
+      const outcome = await closeTriviaRound({ store, directClient, trivia });
+      if (outcome.status === 202) {
+        elizaLogger.log(
+          `Trivia graded, awaiting review: ${trivia.trivia_id} until ${new Date(
+            outcome.body.reviewEndsAt
+          ).toISOString()}`
+        );
+      } else if (outcome.status !== 200) {
+        elizaLogger.warn(
+          `Trivia auto-close skipped: ${trivia.trivia_id} (${outcome.body.error})`
+        );
+      } else {
+        elizaLogger.log(`Trivia auto-closed: ${trivia.trivia_id}`);
+      }
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.stack || error.message : String(error);
+      elizaLogger.error(
+        `Trivia auto-close failed: ${trivia.trivia_id} ${errorMessage}`
+      );
+    }
+  }
+};
+
+// Scans the database on every tick instead of keeping timers per trivia, so
+// trivias whose window ended while the process was down are closed on restart.
+export const startTriviaScheduler = (params: {
+  store: TriviaRewardsStore;
+  directClient: any;
+}) => {
+  if (!isAutoCloseEnabled()) {
+    elizaLogger.log("Trivia auto-close disabled (TRIVIA_AUTO_CLOSE=false).");
+    return null;
+  }
+
+  return startIntervalLoop({
+    name: "Trivia auto-close scheduler",
+    intervalMs:
+      Number(process.env.TRIVIA_AUTO_CLOSE_INTERVAL_MS) ||
+      AUTO_CLOSE_INTERVAL_MS_DEFAULT,
+    tick: () => runAutoCloseTick(params),
+  });
+};
@@ -0,0 +1,129 @@
+import { elizaLogger } from "@elizaos/core";
+import type {
+  TriviaRecord,
+  TriviaReplyInsert,
+  TriviaTicketRecord,
+} from "../db/triviaRewards.ts";
+import { ECASH_ADDRESS_REGEX, buildTicketRanges } from "./helpers.ts";
+import { getTokenBalance } from "./chronik.ts";
+import { resolveClaimPolicy } from "./claimPolicy.ts";
+
+const WEIGHT_CAP_DEFAULT = 10;
+const WEIGHT_CAP_MAX = 1000;
+
+export const getDefaultWeightCap = () =>
+  Math.min(
+    Math.max(
+      Math.trunc(Number(process.env.TRIVIA_WEIGHT_CAP)) || WEIGHT_CAP_DEFAULT,
+      1
+    ),
+    WEIGHT_CAP_MAX
+  );
+
+export const getWeightUnitAtoms = () =>
+  Math.max(Math.trunc(Number(process.env.TRIVIA_WEIGHT_UNIT_ATOMS)) || 1, 1);
+
+export const parseWeightCap = (
+  value: unknown
+): { weightCap: number | null; error?: string } => {
+  if (value === undefined || value === null) {
+    return { weightCap: getDefaultWeightCap() };
+  }
+  const weightCap = Number(value);
+  if (
+    !Number.isInteger(weightCap) ||
+    weightCap < 1 ||
+    weightCap > WEIGHT_CAP_MAX
+  ) {
+    return {
+      weightCap: null,
+      error: `weightCap must be a whole number between 1 and ${WEIGHT_CAP_MAX}.`,
+    };
+  }
+  return { weightCap };
+};
+
+// One ticket per `unitAtoms` of the gating token, at least one (every correct
+// participant can win) and at most `cap`.
+export const computeTicketWeight = (params: {
+  balanceAtoms: bigint;
+  unitAtoms: number;
+  cap: number;
+}) => {
+  const units = params.balanceAtoms / BigInt(params.unitAtoms);
+  return Number(units > BigInt(params.cap) ? BigInt(params.cap) : units) || 1;
+};
+
+// A participant links a wallet by writing an eCash address in any reply to
+// the trivia; the first one found (by reply time) counts.
+export const extractLinkedAddresses = (replies: TriviaReplyInsert[]) => {
+  const addresses = new Map<string, string>();
+  const ordered = [...replies].sort((a, b) => a.created_at - b.created_at);
+  for (const reply of ordered) {
+    if (addresses.has(reply.twitter_user_id)) continue;
+    const match = reply.reply_text.match(ECASH_ADDRESS_REGEX);
+    if (match) {
+      addresses.set(reply.twitter_user_id, match[0].toLowerCase());
+    }
+  }
+  return addresses;
+};
+
+// Balances are read from Chronik when the draw runs. Participants without a
+// linked address keep a single ticket.
+export const snapshotTicketWeights = async (params: {
+  trivia: TriviaRecord;
+  replies: TriviaReplyInsert[];
+  participantIds: string[];
+}): Promise<Omit<TriviaTicketRecord, "trivia_id">[]> => {
+  const { trivia, participantIds } = params;
+  const { gatingTokenId } = resolveClaimPolicy(trivia);
+  if (!gatingTokenId) {
+    throw new Error("No gating token configured for weighted draws.");
+  }
+  const addresses = extractLinkedAddresses(params.replies);
+  const cap = trivia.weight_cap ?? getDefaultWeightCap();
+  const unitAtoms = trivia.weight_unit_atoms ?? getWeightUnitAtoms();
+
+  const snapshot: Array<{
+    twitter_user_id: string;
+    address: string | null;
+    balance_atoms: string;
+    weight: number;
+  }> = [];
+  for (const twitterUserId of participantIds) {
+    const address = addresses.get(twitterUserId) ?? null;
+    const balanceAtoms = address
+      ? await getTokenBalance(address, gatingTokenId)
+      : 0n;
+    snapshot.push({
+      twitter_user_id: twitterUserId,
+      address,
+      balance_atoms: balanceAtoms.toString(),
+      weight: computeTicketWeight({ balanceAtoms, unitAtoms, cap }),
+    });
+  }
+  elizaLogger.log(
+    `Trivia ticket snapshot: ${trivia.trivia_id} ${snapshot.length} participants, ${
+      snapshot.filter((entry) => entry.address).length
+    } linked`
+  );
+
+  const ranges = buildTicketRanges(snapshot.map((entry) => entry.weight));
+  return snapshot.map((entry, index) => ({
+    ...entry,
+    range_start: ranges[index].rangeStart,
+    range_end: ranges[index].rangeEnd,
+  }));
+};
+
+export const toTicketView = (
+  ticket: Omit<TriviaTicketRecord, "trivia_id">
+) => ({
+  twitterUserId: ticket.twitter_user_id,
+  address: ticket.address,
+  balanceAtoms: ticket.balance_atoms,
+  weight: ticket.weight,
+  rangeStart: ticket.range_start,
+  rangeEnd: ticket.range_end,
+});